@@ -0,0 +1,117 @@
+/**
+ * Audit actions: verify the tamper-evident audit trail and search its history.
+ */
+
+import { ActionDefinition, ActionContext, AuditRecord, RiskTier } from '../protocol/types';
+import { AuditSearchSchema, NoParamsSchema } from '../validation/schemas';
+import { AuditLogger } from '../audit/auditLogger';
+import { AuditQuery, auditRecordsToCsv, matchesQuery, visibleTo } from '../audit/auditQuery';
+
+export function createAuditActions(auditLogger: AuditLogger): ActionDefinition[] {
+  return [
+    // ── Verify ────────────────────────────────────────────────────────────
+    {
+      name: 'audit.verify',
+      title: 'Verify audit trail',
+      description: 'Walk the audit log, rotated files included, and report any gap, reordered, inserted or modified record in its hash chain.',
+      riskTier: RiskTier.Safe,
+      requiresAuth: true,
+      writes: false,
+      inputSchema: NoParamsSchema,
+      handler: async () => {
+        const report = await auditLogger.verify();
+        const range = report.first_seq === null ? 'no chained records' : `seq ${report.first_seq}-${report.last_seq}`;
+        return {
+          message: report.valid
+            ? `Audit trail intact: ${report.records} records in ${report.files} file(s), ${range}${report.signed ? ', signatures valid' : ''}.`
+            : `Audit trail check FAILED: ${report.issue_count} issue(s) in ${report.records} records (${range}).`,
+          ...report,
+          warnings: report.signed
+            ? undefined
+            : ['No MCP_AUDIT_HMAC_KEY is configured: the chain detects edits, but someone with write access to the files could rebuild it.'],
+        };
+      },
+    },
+
+    // ── Search ────────────────────────────────────────────────────────────
+    {
+      name: 'audit.search',
+      title: 'Search audit history',
+      description: 'Search the audit log, rotated files included, by time range, user, action or namespace, plan, affected SKU / CMS page / block / cart rule, and outcome. Covers the logged-in user\'s records (every user\'s for audit admins). Paginated; returns records as JSON or CSV.',
+      riskTier: RiskTier.Safe,
+      requiresAuth: true,
+      writes: false,
+      inputSchema: AuditSearchSchema,
+      handler: async (params: Record<string, unknown>, context: ActionContext) => {
+        const validated = AuditSearchSchema.parse(params);
+        const visible = visibleTo(context.username, context.identityVerified, context.config.auditAdminUsers);
+        const query: AuditQuery = {
+          from: validated.from !== undefined ? Date.parse(validated.from) : undefined,
+          to: validated.to !== undefined ? endOf(validated.to) : undefined,
+          username: validated.username,
+          action: validated.action && !/[.*]/.test(validated.action) ? `${validated.action}.*` : validated.action,
+          plan_id: validated.plan_id,
+          sku: validated.sku,
+          page_id: validated.page_id,
+          block_id: validated.block_id,
+          rule_id: validated.rule_id,
+          status: validated.status,
+        };
+        const pageSize = validated.page_size;
+        const page = validated.current_page;
+        const newestFirst = validated.order === 'newest_first';
+
+        // Only the requested page is kept: the oldest matches are the window
+        // itself; for newest first, the last page * page_size matches are
+        // kept in a ring buffer
+        const keep = page * pageSize;
+        const window: AuditRecord[] = [];
+        let total = 0;
+        let unreadable = 0;
+        for await (const line of auditLogger.lines(query.from)) {
+          let record: AuditRecord;
+          try {
+            record = JSON.parse(line.text) as AuditRecord;
+          } catch {
+            unreadable++;
+            continue;
+          }
+          if (!visible(record) || !matchesQuery(record, query)) continue;
+          if (newestFirst) {
+            window[total % keep] = record;
+          } else if (total >= keep - pageSize && total < keep) {
+            window.push(record);
+          }
+          total++;
+        }
+
+        let records = window;
+        if (newestFirst) {
+          const oldestFirst = window.length < keep
+            ? window
+            : [...window.slice(total % keep), ...window.slice(0, total % keep)];
+          records = oldestFirst.reverse().slice(keep - pageSize, keep);
+        }
+
+        const paging = {
+          total_count: total,
+          current_page: page,
+          page_size: pageSize,
+          total_pages: Math.ceil(total / pageSize),
+          order: validated.order,
+          unreadable_lines: unreadable > 0 ? unreadable : undefined,
+        };
+        if (validated.format === 'csv') {
+          return { format: 'csv', ...paging, csv: auditRecordsToCsv(records) };
+        }
+        return { ...paging, records };
+      },
+    },
+  ];
+}
+
+/** Exclusive end of the range; a date without a time covers that whole UTC day */
+function endOf(value: string): number {
+  const time = Date.parse(value);
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + 86_400_000 : time + 1;
+}
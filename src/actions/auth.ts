@@ -3,90 +3,80 @@
  */
 
 import { ActionDefinition, ActionContext, RiskTier, ErrorCodes } from '../protocol/types';
-import { AuthLoginSchema } from '../validation/schemas';
-import { MagentoRestClient, OAuthCredentials } from '../client/magentoRest';
-import { SessionStore } from '../session/sessionStore';
+import { AuthLoginSchema, NoParamsSchema } from '../validation/schemas';
+import { MagentoRestClient } from '../client/magentoRest';
+import { SessionStore, SessionData, INTEGRATION_USERNAME } from '../session/sessionStore';
+import { GuardrailError } from '../validation/guardrails';
+import { McpConfig } from '../config';
+import { MagentoCredentials } from '../config/profiles';
 
-export function createAuthActions(sessionStore: SessionStore): ActionDefinition[] {
+export function createAuthActions(sessionStore: SessionStore, config: McpConfig): ActionDefinition[] {
   return [
     {
       name: 'auth.login',
+      title: 'Log in to Magento',
       description: 'Authenticate with Magento Admin credentials and establish a session.',
       riskTier: RiskTier.Safe,
       requiresAuth: false,
+      writes: false,
+      inputSchema: AuthLoginSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = AuthLoginSchema.parse(params);
 
         const base_url = validated.base_url || process.env.MAGENTO_BASE_URL;
         if (!base_url) {
-          return { error: { code: 'VALIDATION_ERROR', message: 'base_url is required — pass it in params or set MAGENTO_BASE_URL env var' } };
+          throw new GuardrailError(ErrorCodes.VALIDATION_ERROR, 'base_url is required — pass it in params or set MAGENTO_BASE_URL env var');
         }
 
         // Check for OAuth 1.0 integration credentials first (bypasses 2FA)
-        const oauthConsumerKey = (params['oauth_consumer_key'] as string) || process.env.MAGENTO_OAUTH_CONSUMER_KEY;
-        const oauthConsumerSecret = (params['oauth_consumer_secret'] as string) || process.env.MAGENTO_OAUTH_CONSUMER_SECRET;
-        const oauthToken = (params['oauth_token'] as string) || process.env.MAGENTO_OAUTH_TOKEN;
-        const oauthTokenSecret = (params['oauth_token_secret'] as string) || process.env.MAGENTO_OAUTH_TOKEN_SECRET;
+        const oauthConsumerKey = validated.oauth_consumer_key || process.env.MAGENTO_OAUTH_CONSUMER_KEY;
+        const oauthConsumerSecret = validated.oauth_consumer_secret || process.env.MAGENTO_OAUTH_CONSUMER_SECRET;
+        const oauthToken = validated.oauth_token || process.env.MAGENTO_OAUTH_TOKEN;
+        const oauthTokenSecret = validated.oauth_token_secret || process.env.MAGENTO_OAUTH_TOKEN_SECRET;
+        const integrationToken = validated.integration_token || process.env.MAGENTO_INTEGRATION_TOKEN;
 
+        let credentials: MagentoCredentials;
         if (oauthConsumerKey && oauthConsumerSecret && oauthToken && oauthTokenSecret) {
-          const oauthCreds: OAuthCredentials = {
-            consumerKey: oauthConsumerKey,
-            consumerSecret: oauthConsumerSecret,
-            token: oauthToken,
-            tokenSecret: oauthTokenSecret,
+          credentials = {
+            type: 'oauth',
+            oauth: {
+              consumerKey: oauthConsumerKey,
+              consumerSecret: oauthConsumerSecret,
+              token: oauthToken,
+              tokenSecret: oauthTokenSecret,
+            },
           };
-          const username = validated.username || process.env.MAGENTO_ADMIN_USERNAME || 'integration';
-          sessionStore.createOAuth(context.sessionId, base_url, oauthCreds, username);
-          return {
-            message: 'Login successful (OAuth 1.0 integration)',
-            username: username,
-            base_url: base_url,
-            auth_method: 'oauth',
+        } else if (integrationToken) {
+          // Integration bearer token (bypasses 2FA)
+          credentials = {
+            type: 'integration_token',
+            token: integrationToken,
           };
-        }
-
-        // Check for integration bearer token (bypasses 2FA)
-        const integrationToken = (params['integration_token'] as string) || process.env.MAGENTO_INTEGRATION_TOKEN;
-        if (integrationToken) {
-          const username = validated.username || process.env.MAGENTO_ADMIN_USERNAME || 'integration';
-          sessionStore.create(context.sessionId, base_url, integrationToken, username);
-          return {
-            message: 'Login successful (integration token)',
-            username: username,
-            base_url: base_url,
-            auth_method: 'integration_token',
-          };
-        }
-
-        // Fall back to username/password login
-        const username = validated.username || process.env.MAGENTO_ADMIN_USERNAME;
-        if (!username) {
-          return { error: { code: 'VALIDATION_ERROR', message: 'username is required — pass it in params or set MAGENTO_ADMIN_USERNAME env var' } };
-        }
+        } else {
+          // Fall back to username/password login
+          const username = validated.username || process.env.MAGENTO_ADMIN_USERNAME;
+          if (!username) {
+            throw new GuardrailError(ErrorCodes.VALIDATION_ERROR, 'username is required — pass it in params or set MAGENTO_ADMIN_USERNAME env var');
+          }
 
-        const password = validated.password || process.env.MAGENTO_ADMIN_PASSWORD;
-        if (!password) {
-          return { error: { code: 'VALIDATION_ERROR', message: 'password is required — pass it in params or set MAGENTO_ADMIN_PASSWORD env var' } };
+          const password = validated.password || process.env.MAGENTO_ADMIN_PASSWORD;
+          if (!password) {
+            throw new GuardrailError(ErrorCodes.VALIDATION_ERROR, 'password is required — pass it in params or set MAGENTO_ADMIN_PASSWORD env var');
+          }
+          credentials = { type: 'admin_token', username, password };
         }
 
-        const client = new MagentoRestClient(base_url);
-        const token = await client.getAdminToken(username, password);
-
-        sessionStore.create(context.sessionId, base_url, token, username);
-
-        return {
-          message: 'Login successful',
-          username: username,
-          base_url: base_url,
-          auth_method: 'admin_token',
-        };
+        return establishSession(sessionStore, config, context.sessionId, base_url, credentials);
       },
     },
     {
       name: 'auth.logout',
+      title: 'Log out',
       description: 'Destroy the current session.',
       riskTier: RiskTier.Safe,
       requiresAuth: true,
+      writes: false,
+      inputSchema: NoParamsSchema,
       handler: async (_params: Record<string, unknown>, context: ActionContext) => {
         const destroyed = sessionStore.destroy(context.sessionId);
         return {
@@ -96,31 +86,105 @@ export function createAuthActions(sessionStore: SessionStore): ActionDefinition[
     },
     {
       name: 'auth.whoami',
-      description: 'Return current admin user info for the active session.',
+      title: 'Show current admin user',
+      description: 'Return current admin user info for the active session, with the token age and estimated expiry.',
       riskTier: RiskTier.Safe,
       requiresAuth: true,
+      writes: false,
+      inputSchema: NoParamsSchema,
       handler: async (_params: Record<string, unknown>, context: ActionContext) => {
         const token = context.getToken();
         const baseUrl = context.getBaseUrl();
 
         if (!token || !baseUrl) {
-          return { error: { code: ErrorCodes.NOT_AUTHENTICATED, message: 'No active session' } };
+          throw new GuardrailError(ErrorCodes.NOT_AUTHENTICATED, 'No active session');
         }
 
         // Try to get current admin user info from Magento
+        let userInfo: Record<string, unknown>;
         try {
           const client = context.getClient();
-          const userInfo = await client.get('/V1/users/me');
-          return userInfo;
+          userInfo = await client.get<Record<string, unknown>>('/V1/users/me');
         } catch {
           // If the endpoint isn't available, return what we know
-          return {
+          userInfo = {
             username: context.username,
             base_url: baseUrl,
             default_scope: context.getDefaultScope(),
           };
         }
+
+        // Read the session after the call above, which may have refreshed the token
+        const session = sessionStore.get(context.sessionId);
+        return session ? { ...userInfo, token: describeToken(session, config.adminTokenLifetimeHours) } : userInfo;
       },
     },
   ];
 }
+
+/**
+ * Authenticate against Magento and (re)create the session. Shared by
+ * auth.login and profile.use.
+ */
+export async function establishSession(
+  sessionStore: SessionStore,
+  config: McpConfig,
+  sessionId: string,
+  baseUrl: string,
+  credentials: MagentoCredentials,
+): Promise<Record<string, unknown>> {
+  switch (credentials.type) {
+    case 'oauth':
+      sessionStore.createOAuth(sessionId, baseUrl, credentials.oauth);
+      return {
+        message: 'Login successful (OAuth 1.0 integration)',
+        username: INTEGRATION_USERNAME,
+        base_url: baseUrl,
+        auth_method: 'oauth',
+      };
+
+    case 'integration_token':
+      sessionStore.create(sessionId, baseUrl, credentials.token, INTEGRATION_USERNAME, 'integration_token');
+      return {
+        message: 'Login successful (integration token)',
+        username: INTEGRATION_USERNAME,
+        base_url: baseUrl,
+        auth_method: 'integration_token',
+      };
+
+    case 'admin_token': {
+      const client = new MagentoRestClient(baseUrl, null, config);
+      const token = await client.getAdminToken(credentials.username, credentials.password);
+
+      // The password stays in memory so the token can be re-acquired when it expires
+      sessionStore.create(sessionId, baseUrl, token, credentials.username, 'admin_token', credentials.password);
+      return {
+        message: 'Login successful',
+        username: credentials.username,
+        base_url: baseUrl,
+        auth_method: 'admin_token',
+      };
+    }
+  }
+}
+
+/**
+ * Token age and estimated expiry. Only admin tokens expire; integration
+ * tokens and OAuth credentials stay valid until revoked in Magento.
+ */
+function describeToken(session: SessionData, lifetimeHours: number): Record<string, unknown> {
+  const issuedAt = Date.parse(session.tokenIssuedAt);
+  const ageSeconds = Math.floor((Date.now() - issuedAt) / 1000);
+  const expires = session.authMethod === 'admin_token';
+  const expiresAt = new Date(issuedAt + lifetimeHours * 3_600_000);
+
+  return {
+    auth_method: session.authMethod,
+    issued_at: session.tokenIssuedAt,
+    age_seconds: ageSeconds,
+    estimated_expires_at: expires ? expiresAt.toISOString() : null,
+    estimated_seconds_remaining: expires ? Math.max(0, Math.floor((expiresAt.getTime() - Date.now()) / 1000)) : null,
+    auto_refresh: session.adminCredentials !== null,
+    refresh_count: session.tokenRefreshCount,
+  };
+}
@@ -0,0 +1,257 @@
+/**
+ * Bulk actions: Magento asynchronous bulk API.
+ *
+ * Large product commits can be submitted as one operation to
+ * /rest/async/bulk/V1/products; Magento's message-queue consumers apply
+ * them in the background and bulk.get_status reports the outcome.
+ */
+
+import { ActionDefinition, ActionContext, RiskTier } from '../protocol/types';
+import { BulkGetStatusSchema } from '../validation/schemas';
+import { MagentoRestClient, MagentoApiException } from '../client/magentoRest';
+import { bulkCommitResult } from '../client/bulkExecutor';
+
+// Magento\AsynchronousOperations\Api\Data\OperationInterface status codes
+const OPERATION_STATUS: Record<number, string> = {
+  1: 'complete',
+  2: 'failed_retriable',
+  3: 'failed',
+  4: 'open',
+  5: 'rejected',
+};
+const STATUS_OPEN = 4;
+
+// A bulk with nothing processed after this long most likely has no consumer running
+const STALLED_AFTER_MINUTES = 5;
+// How often a commit polls its new bulk while waiting for the consumer to start on it
+const CONSUMER_POLL_MS = 2000;
+const MAX_REPORTED_FAILURES = 50;
+// SKUs per 'in' filter, keeping the query string well under URL length limits
+const SKU_LOOKUP_CHUNK = 100;
+
+interface AsyncBulkResponse {
+  bulk_uuid: string;
+  request_items: Array<{ id: number; data_hash?: string; status: string; error_message?: string }>;
+  errors: boolean;
+}
+
+interface BulkSummary {
+  bulk_id: string;
+  description?: string;
+  start_time?: string;
+  operation_count?: number;
+  operations_list?: Array<{ id: number; status: number; result_message?: string | null; error_code?: number | null }>;
+}
+
+export function createBulkActions(): ActionDefinition[] {
+  return [
+    // ── Get Status ────────────────────────────────────────────────────────
+    {
+      name: 'bulk.get_status',
+      title: 'Get async bulk operation status',
+      description: 'Poll a Magento asynchronous bulk operation and summarise its per-operation results.',
+      riskTier: RiskTier.Safe,
+      requiresAuth: true,
+      writes: false,
+      inputSchema: BulkGetStatusSchema,
+      handler: async (params: Record<string, unknown>, context: ActionContext) => {
+        const validated = BulkGetStatusSchema.parse(params);
+        const client = context.getClient();
+
+        const summary = await client.get<BulkSummary>(`/V1/bulk/${validated.bulk_uuid}/status`);
+        const operations = summary.operations_list ?? [];
+
+        const counts: Record<string, number> = {};
+        for (const label of Object.values(OPERATION_STATUS)) counts[label] = 0;
+        for (const op of operations) {
+          const label = OPERATION_STATUS[op.status] ?? 'unknown';
+          counts[label] = (counts[label] ?? 0) + 1;
+        }
+
+        const failures = operations
+          .filter((op) => op.status !== 1 && op.status !== STATUS_OPEN)
+          .map((op) => ({
+            operation_id: op.id,
+            status: OPERATION_STATUS[op.status] ?? String(op.status),
+            error_code: op.error_code ?? undefined,
+            message: op.result_message ?? undefined,
+          }));
+
+        const total = summary.operation_count ?? operations.length;
+        const open = counts['open'];
+        const startedAt = summary.start_time ? Date.parse(summary.start_time) : NaN;
+        const ageMinutes = Number.isNaN(startedAt) ? 0 : (Date.now() - startedAt) / 60_000;
+        const stalled = open === total && total > 0 && ageMinutes >= STALLED_AFTER_MINUTES;
+
+        const warnings: string[] = [];
+        if (stalled) {
+          warnings.push(
+            `No operation has been processed after ${Math.floor(ageMinutes)} minutes. The async.operations.all consumer is probably not running; start it or prepare the change again and commit with async_bulk: false.`,
+          );
+        }
+        if (failures.length > MAX_REPORTED_FAILURES) {
+          warnings.push(`Showing the first ${MAX_REPORTED_FAILURES} of ${failures.length} failed operations.`);
+        }
+
+        return {
+          message: open > 0
+            ? `${total - open}/${total} operations processed, ${failures.length} failed.`
+            : `Finished: ${counts['complete']}/${total} operations complete, ${failures.length} failed.`,
+          bulk_uuid: validated.bulk_uuid,
+          description: summary.description,
+          start_time: summary.start_time,
+          operation_count: total,
+          finished: open === 0,
+          stalled: stalled || undefined,
+          counts,
+          failures: failures.length > 0 ? failures.slice(0, MAX_REPORTED_FAILURES) : undefined,
+          warnings: warnings.length > 0 ? warnings : undefined,
+        };
+      },
+    },
+  ];
+}
+
+/**
+ * Commit per-SKU product updates, either as one async bulk operation or
+ * item by item through the bulk executor.
+ *
+ * The async path falls back to the synchronous one when Magento cannot
+ * accept the bulk (async API route missing, or the message queue broker
+ * unreachable); the fallback reason is included in the result. A bulk that
+ * was accepted but that no consumer starts on within
+ * asyncBulkStartTimeoutSeconds is still a successful commit, since the
+ * queued updates will be applied; the result warns and gives next steps.
+ */
+export async function commitProductUpdates(
+  context: ActionContext,
+  client: MagentoRestClient,
+  options: {
+    skus: string[];
+    productFor: (sku: string) => Record<string, unknown>;
+    storeCode?: string;
+    useAsync: boolean;
+    verb: string;
+  },
+): Promise<Record<string, unknown>> {
+  const { skus, productFor, storeCode, verb } = options;
+  let fallbackReason: string | undefined;
+
+  if (options.useAsync && skus.length > 0) {
+    try {
+      const response = await client.post<AsyncBulkResponse | null>(
+        '/async/bulk/V1/products',
+        skus.map((sku) => ({ product: productFor(sku) })),
+        true,
+        storeCode,
+      );
+      const rejected = (response?.request_items ?? [])
+        .filter((item) => item.status !== 'accepted')
+        .map((item) => ({ item: skus[item.id] ?? String(item.id), error: item.error_message ?? item.status }));
+      const accepted = skus.length - rejected.length;
+      const rejectedSkus = new Set(rejected.map((r) => r.item));
+      context.recordAffected({ skus: skus.filter((sku) => !rejectedSkus.has(sku)) });
+
+      const bulkUuid = response?.bulk_uuid ?? null;
+      const timeoutSeconds = context.config.asyncBulkStartTimeoutSeconds;
+      const started = bulkUuid && accepted > 0
+        ? await waitForConsumer(client, bulkUuid, timeoutSeconds, context.signal)
+        : true;
+
+      return {
+        message: `Submitted async bulk operation: ${accepted}/${skus.length} products accepted. Call bulk.get_status to follow progress.`,
+        mode: 'async',
+        bulk_uuid: bulkUuid,
+        accepted_count: accepted,
+        rejected_count: rejected.length,
+        rejected: rejected.length > 0 ? rejected : undefined,
+        retry_count: client.retryCount,
+        consumer_started: started,
+        ...(started ? {} : {
+          warnings: [
+            `None of the ${accepted} queued operations was processed within ${timeoutSeconds}s: Magento's async.operations.all consumer is probably not running. The updates stay queued and are applied when it runs.`,
+          ],
+          next_steps: [
+            'Start the consumer (bin/magento queue:consumers:start async.operations.all, or enable cron_consumers_runner), then follow progress with bulk.get_status.',
+            'Do not re-apply this change with async_bulk: false while the bulk is queued: the queued updates would still run once a consumer starts and overwrite anything changed in between.',
+          ],
+        }),
+      };
+    } catch (err) {
+      if (!isAsyncBulkUnavailable(err)) throw err;
+      fallbackReason = `Async bulk API unavailable (${(err as Error).message}); applied synchronously instead.`;
+    }
+  }
+
+  const run = await context.runBulk(skus, (sku) => sku, async (sku) => {
+    await client.put(`/V1/products/${encodeURIComponent(sku)}`, { product: productFor(sku) }, storeCode);
+  });
+  context.recordAffected({ skus: run.applied });
+  const result = bulkCommitResult(run, verb, 'products', client.retryCount);
+  return { ...result, mode: 'sync', fallback_reason: fallbackReason };
+}
+
+/**
+ * Load the current state of products by SKU, keyed by SKU, for the drift
+ * check at commit time. SKUs that no longer exist are absent from the map.
+ */
+export async function fetchProductsBySku(
+  client: MagentoRestClient,
+  skus: string[],
+  storeCode?: string,
+): Promise<Map<string, Record<string, unknown>>> {
+  const products = new Map<string, Record<string, unknown>>();
+  for (let i = 0; i < skus.length; i += SKU_LOOKUP_CHUNK) {
+    const chunk = skus.slice(i, i + SKU_LOOKUP_CHUNK);
+    const result = await client.searchAll('/V1/products', {
+      filterGroups: [{ filters: [{ field: 'sku', value: chunk.join(','), conditionType: 'in' }] }],
+    }, { storeCode });
+    for (const product of result.items) {
+      products.set(String(product['sku']), product);
+    }
+  }
+  return products;
+}
+
+/**
+ * Wait until at least one operation of a new bulk has been processed.
+ * Returns false if none is within the timeout: no consumer is running and
+ * the updates would sit in the queue unnoticed.
+ */
+async function waitForConsumer(
+  client: MagentoRestClient,
+  bulkUuid: string,
+  timeoutSeconds: number,
+  signal: AbortSignal,
+): Promise<boolean> {
+  if (timeoutSeconds <= 0) return true;
+  const deadline = Date.now() + timeoutSeconds * 1000;
+
+  for (;;) {
+    const summary = await client.get<BulkSummary>(`/V1/bulk/${bulkUuid}/status`);
+    if ((summary.operations_list ?? []).some((op) => op.status !== STATUS_OPEN)) return true;
+    if (Date.now() >= deadline) return false;
+    await delay(Math.min(CONSUMER_POLL_MS, deadline - Date.now()), signal);
+  }
+}
+
+/** Resolves after `ms`, or as soon as the signal is aborted */
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+    function done(): void {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * 404: the async bulk route is not installed. 5xx: typically the broker
+ * (RabbitMQ or the MySQL queue) could not take the messages.
+ */
+function isAsyncBulkUnavailable(err: unknown): boolean {
+  return err instanceof MagentoApiException && (err.statusCode === 404 || err.statusCode >= 500);
+}
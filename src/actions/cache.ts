@@ -3,14 +3,14 @@
  * No purge-all in v1 — targeted only.
  */
 
-import { ActionDefinition, ActionContext, RiskTier } from '../protocol/types';
+import { ActionDefinition, ActionContext, RiskTier, ErrorCodes } from '../protocol/types';
 import {
   CachePurgeByUrlSchema,
   CachePurgeProductSchema,
   CachePurgeCategorySchema,
 } from '../validation/schemas';
 import { FastlyClient } from '../client/fastlyClient';
-import { Guardrails } from '../validation/guardrails';
+import { GuardrailError } from '../validation/guardrails';
 import { McpConfig } from '../config';
 
 // Simple in-memory rate limiter
@@ -30,32 +30,43 @@ function checkRateLimit(config: McpConfig): void {
 
   rateLimitState.count++;
   if (rateLimitState.count > config.cachePurgeRateLimitPerMinute) {
-    throw new Error(
+    throw new GuardrailError(
+      ErrorCodes.RATE_LIMITED,
       `Rate limit exceeded: ${config.cachePurgeRateLimitPerMinute} purge operations per minute.`,
+      { limit: config.cachePurgeRateLimitPerMinute },
     );
   }
 }
 
-export function createCacheActions(
-  guardrails: Guardrails,
-  config: McpConfig,
-): ActionDefinition[] {
+/**
+ * Build a Fastly client that records purges instead of sending them in dry-run mode.
+ */
+function createFastlyClient(serviceId: string, apiToken: string, context: ActionContext): FastlyClient {
+  const fastly = new FastlyClient(serviceId, apiToken);
+  if (context.dryRun) fastly.setDryRun(context.intendedRequests);
+  return fastly;
+}
+
+export function createCacheActions(): ActionDefinition[] {
   return [
     // ── Purge by URL ──────────────────────────────────────────────────────
     {
       name: 'cache.purge_by_url',
+      title: 'Purge URLs from CDN cache',
       description: 'Purge specific URLs from CDN cache.',
       riskTier: RiskTier.Risk,
       requiresAuth: true,
-      handler: async (params: Record<string, unknown>, _context: ActionContext) => {
+      writes: true,
+      inputSchema: CachePurgeByUrlSchema,
+      handler: async (params: Record<string, unknown>, context: ActionContext) => {
+        const { config } = context;
         const validated = CachePurgeByUrlSchema.parse(params);
-        guardrails.requireConfirmation(RiskTier.Risk, params);
         checkRateLimit(config);
 
         // No wildcard purge allowed
         for (const url of validated.urls) {
           if (url.includes('*')) {
-            throw new Error('Wildcard purge is not allowed. Specify exact URLs.');
+            throw new GuardrailError(ErrorCodes.VALIDATION_ERROR, 'Wildcard purge is not allowed. Specify exact URLs.');
           }
         }
 
@@ -66,7 +77,7 @@ export function createCacheActions(
           };
         }
 
-        const fastly = new FastlyClient(config.fastlyServiceId, config.fastlyApiToken);
+        const fastly = createFastlyClient(config.fastlyServiceId, config.fastlyApiToken, context);
         const results: Array<{ url: string; success: boolean; id?: string }> = [];
 
         for (const url of validated.urls) {
@@ -89,17 +100,20 @@ export function createCacheActions(
     // ── Purge Product ─────────────────────────────────────────────────────
     {
       name: 'cache.purge_product',
+      title: 'Purge product from CDN cache',
       description: 'Purge cache for a specific product by SKU.',
       riskTier: RiskTier.Risk,
       requiresAuth: true,
+      writes: true,
+      inputSchema: CachePurgeProductSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
+        const { config } = context;
         const validated = CachePurgeProductSchema.parse(params);
-        guardrails.requireConfirmation(RiskTier.Risk, params);
         checkRateLimit(config);
 
         if (config.fastlyServiceId && config.fastlyApiToken) {
           // Use Fastly surrogate key purge
-          const fastly = new FastlyClient(config.fastlyServiceId, config.fastlyApiToken);
+          const fastly = createFastlyClient(config.fastlyServiceId, config.fastlyApiToken, context);
 
           // Get product ID for surrogate key
           const client = context.getClient();
@@ -139,12 +153,15 @@ export function createCacheActions(
     // ── Purge Category ────────────────────────────────────────────────────
     {
       name: 'cache.purge_category',
+      title: 'Purge category from CDN cache',
       description: 'Purge cache for a specific category.',
       riskTier: RiskTier.Risk,
       requiresAuth: true,
-      handler: async (params: Record<string, unknown>, _context: ActionContext) => {
+      writes: true,
+      inputSchema: CachePurgeCategorySchema,
+      handler: async (params: Record<string, unknown>, context: ActionContext) => {
+        const { config } = context;
         const validated = CachePurgeCategorySchema.parse(params);
-        guardrails.requireConfirmation(RiskTier.Risk, params);
         checkRateLimit(config);
 
         if (!config.fastlyServiceId || !config.fastlyApiToken) {
@@ -154,7 +171,7 @@ export function createCacheActions(
           };
         }
 
-        const fastly = new FastlyClient(config.fastlyServiceId, config.fastlyApiToken);
+        const fastly = createFastlyClient(config.fastlyServiceId, config.fastlyApiToken, context);
 
         // Purge by category surrogate key
         const surrogateKey = `cat_c_${validated.category_id}`;
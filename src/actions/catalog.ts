@@ -2,33 +2,32 @@
  * Catalog actions: Product search, get, and bulk update (two-phase).
  */
 
-import { ActionDefinition, ActionContext, RiskTier } from '../protocol/types';
+import { ActionDefinition, ActionContext, RiskTier, ErrorCodes } from '../protocol/types';
 import {
   CatalogSearchSchema,
   CatalogGetProductSchema,
   PrepareBulkUpdateSchema,
   CommitBulkUpdateSchema,
+  AttributeFilter,
 } from '../validation/schemas';
-import { MagentoRestClient } from '../client/magentoRest';
+import { MagentoRestClient, MagentoSearchResult } from '../client/magentoRest';
 // Note: MagentoRestClient import kept for resolveMatchingProducts helper
 import { PlanStore } from '../session/planStore';
-import { Guardrails } from '../validation/guardrails';
-import { IdempotencyLedger } from '../session/idempotencyLedger';
-import { McpConfig } from '../config';
+import { GuardrailError } from '../validation/guardrails';
+import { checkPlanDrift, fingerprintTargets, PlanFingerprints } from '../validation/drift';
+import { commitProductUpdates, fetchProductsBySku } from './bulk';
 
-export function createCatalogActions(
-  planStore: PlanStore,
-  guardrails: Guardrails,
-  idempotencyLedger: IdempotencyLedger,
-  config: McpConfig,
-): ActionDefinition[] {
+export function createCatalogActions(planStore: PlanStore): ActionDefinition[] {
   return [
     // ── Search Products ───────────────────────────────────────────────────
     {
       name: 'catalog.search_products',
+      title: 'Search products',
       description: 'Search products with filters, pagination, and optional scope.',
       riskTier: RiskTier.Safe,
       requiresAuth: true,
+      writes: false,
+      inputSchema: CatalogSearchSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = CatalogSearchSchema.parse(params);
         const client = context.getClient();
@@ -70,9 +69,12 @@ export function createCatalogActions(
     // ── Get Product ───────────────────────────────────────────────────────
     {
       name: 'catalog.get_product',
+      title: 'Get product',
       description: 'Get full product details by SKU.',
       riskTier: RiskTier.Safe,
       requiresAuth: true,
+      writes: false,
+      inputSchema: CatalogGetProductSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = CatalogGetProductSchema.parse(params);
         const client = context.getClient();
@@ -85,10 +87,15 @@ export function createCatalogActions(
     // ── Prepare Bulk Update ───────────────────────────────────────────────
     {
       name: 'catalog.prepare_bulk_update',
+      title: 'Prepare bulk product update',
       description: 'Prepare a bulk product update. Returns a plan with affected count and sample diffs.',
       riskTier: RiskTier.Risk,
       requiresAuth: true,
+      writes: false,
+      requiresConfirmation: false,
+      inputSchema: PrepareBulkUpdateSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
+        const { config, guardrails } = context;
         const validated = PrepareBulkUpdateSchema.parse(params);
 
         // Enforce allowed fields
@@ -101,17 +108,25 @@ export function createCatalogActions(
         const client = context.getClient();
 
         // Resolve matching products
-        const products = await resolveMatchingProducts(client, validated.match, validated.scope?.store_view_code);
-        guardrails.enforceBulkSkuCap(products.length);
+        const matches = await resolveMatchingProducts(
+          client,
+          validated.match,
+          validated.scope?.store_view_code,
+          config.maxSkusPerBulkCommit,
+        );
+        // Capped on total_count, so a match larger than the cap is rejected instead of cut short
+        guardrails.enforceBulkSkuCap(matches.total_count);
+        const products = matches.items;
 
-        // Build sample diffs (show first 5)
-        const sampleDiffs = products.slice(0, 5).map((p: Record<string, unknown>) => {
+        // Every diff is kept on the plan for plans.get; the response shows the first 5
+        const diffs = products.map((p: Record<string, unknown>) => {
           const diff: Record<string, { from: unknown; to: unknown }> = {};
           for (const [field, newValue] of Object.entries(validated.updates)) {
             diff[field] = { from: p[field], to: newValue };
           }
           return { sku: p['sku'], changes: diff };
         });
+        const sampleDiffs = diffs.slice(0, 5);
 
         const warnings: string[] = [];
         if (products.length > 100) {
@@ -119,16 +134,19 @@ export function createCatalogActions(
         }
 
         const plan = planStore.create(
+          context.sessionId,
           'catalog.commit_bulk_update',
           {
             skus: products.map((p: Record<string, unknown>) => p['sku']),
             updates: validated.updates,
             scope: validated.scope,
+            fingerprints: fingerprintTargets(products, (p) => String(p['sku']), Object.keys(validated.updates)),
           },
           products.length,
           config.planExpiryMinutes,
           sampleDiffs,
           warnings,
+          diffs,
         );
 
         return {
@@ -145,59 +163,51 @@ export function createCatalogActions(
     // ── Commit Bulk Update ────────────────────────────────────────────────
     {
       name: 'catalog.commit_bulk_update',
+      title: 'Commit bulk product update',
       description: 'Execute a previously prepared bulk product update.',
       riskTier: RiskTier.Risk,
       requiresAuth: true,
+      writes: true,
+      inputSchema: CommitBulkUpdateSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
+        const { config } = context;
         const validated = CommitBulkUpdateSchema.parse(params);
-        guardrails.requireConfirmation(RiskTier.Risk, params);
-
-        // Check idempotency
-        if (validated.idempotency_key) {
-          const existing = idempotencyLedger.get(validated.idempotency_key);
-          if (existing) {
-            return {
-              message: 'Operation already completed (idempotency match)',
-              previous_result: existing.result_summary,
-            };
-          }
-        }
 
-        const plan = planStore.consume(validated.plan_id);
+        const plan = planStore.get(validated.plan_id, context.sessionId);
         if (!plan) {
-          throw new Error('Plan not found or expired. Prepare a new plan.');
+          throw new GuardrailError(ErrorCodes.PLAN_NOT_FOUND, 'Plan not found or expired. Prepare a new plan.');
         }
 
-        const payload = plan.payload as { skus: string[]; updates: Record<string, unknown>; scope: Record<string, string> };
+        const payload = plan.payload as {
+          skus: string[];
+          updates: Record<string, unknown>;
+          scope: Record<string, string>;
+          fingerprints?: PlanFingerprints;
+        };
         const client = context.getClient();
         const storeCode = payload.scope?.store_view_code;
 
-        let successCount = 0;
-        const errors: Array<{ sku: string; error: string }> = [];
+        const drift = await checkPlanDrift(
+          payload.fingerprints,
+          (skus) => fetchProductsBySku(client, skus, storeCode),
+          validated.on_drift,
+        );
 
-        for (const sku of payload.skus) {
-          try {
-            await client.put(`/V1/products/${encodeURIComponent(sku)}`, {
-              product: { sku, ...payload.updates },
-            }, storeCode);
-            successCount++;
-          } catch (err) {
-            errors.push({ sku, error: err instanceof Error ? err.message : String(err) });
-          }
+        // Consumed only after the drift check, so an aborted commit can be retried.
+        // A dry run rehearses the commit without using up the plan.
+        if (!context.dryRun && !planStore.consume(plan.plan_id, context.sessionId)) {
+          throw new GuardrailError(ErrorCodes.PLAN_NOT_FOUND, 'Plan not found or expired. Prepare a new plan.');
         }
 
-        const summary = `Updated ${successCount}/${payload.skus.length} products. ${errors.length} errors.`;
-
-        if (validated.idempotency_key) {
-          idempotencyLedger.record(validated.idempotency_key, 'catalog.commit_bulk_update', summary);
-        }
+        const result = await commitProductUpdates(context, client, {
+          skus: payload.skus.filter((sku) => !drift.skipped.has(sku)),
+          productFor: (sku) => ({ sku, ...payload.updates }),
+          storeCode,
+          useAsync: validated.async_bulk ?? config.asyncBulk,
+          verb: 'Updated',
+        });
 
-        return {
-          message: summary,
-          success_count: successCount,
-          error_count: errors.length,
-          errors: errors.length > 0 ? errors : undefined,
-        };
+        return { ...result, drift: drift.report };
       },
     },
   ];
@@ -208,9 +218,10 @@ export function createCatalogActions(
  */
 async function resolveMatchingProducts(
   client: MagentoRestClient,
-  match: { sku_list?: string[]; sku_prefix?: string; attribute_filters?: Record<string, unknown>; category_id?: number },
+  match: { sku_list?: string[]; sku_prefix?: string; attribute_filters?: Record<string, AttributeFilter>; category_id?: number },
   storeCode?: string,
-): Promise<Array<Record<string, unknown>>> {
+  maxItems?: number,
+): Promise<MagentoSearchResult<Record<string, unknown>>> {
   const filterGroups: Array<{ filters: Array<{ field: string; value: string; conditionType?: string }> }> = [];
 
   if (match.sku_list && match.sku_list.length > 0) {
@@ -227,16 +238,10 @@ async function resolveMatchingProducts(
 
   if (match.attribute_filters) {
     for (const [field, spec] of Object.entries(match.attribute_filters)) {
-      if (typeof spec === 'object' && spec !== null) {
-        const s = spec as Record<string, string>;
-        filterGroups.push({
-          filters: [{ field, value: s['value'] || '', conditionType: s['condition'] || 'eq' }],
-        });
-      } else {
-        filterGroups.push({
-          filters: [{ field, value: String(spec), conditionType: 'eq' }],
-        });
-      }
+      const filter = typeof spec === 'object' ? spec : { value: spec, condition: undefined };
+      filterGroups.push({
+        filters: [{ field, value: String(filter.value), conditionType: filter.condition ?? 'eq' }],
+      });
     }
   }
 
@@ -246,11 +251,7 @@ async function resolveMatchingProducts(
     });
   }
 
-  const searchParams = client.buildSearchParams({
+  return client.searchAll('/V1/products', {
     filterGroups: filterGroups.length > 0 ? filterGroups : undefined,
-    pageSize: 2000, // Max page to resolve all matches
-  });
-
-  const result = await client.get<{ items: Array<Record<string, unknown>> }>('/V1/products', searchParams, storeCode);
-  return result.items || [];
+  }, { storeCode, maxItems });
 }
@@ -2,7 +2,7 @@
  * CMS actions: Pages and blocks search, get, and bulk update.
  */
 
-import { ActionDefinition, ActionContext, RiskTier } from '../protocol/types';
+import { ActionDefinition, ActionContext, RiskTier, ErrorCodes } from '../protocol/types';
 import {
   CmsSearchPagesSchema,
   CmsGetPageSchema,
@@ -13,24 +13,24 @@ import {
   CmsPrepareBulkUpdateBlocksSchema,
   CmsCommitBulkUpdateBlocksSchema,
 } from '../validation/schemas';
-import { MagentoRestClient } from '../client/magentoRest';
+import { MagentoRestClient, MagentoSearchResult } from '../client/magentoRest';
 // Note: MagentoRestClient import kept for resolve helpers
 import { PlanStore } from '../session/planStore';
-import { Guardrails } from '../validation/guardrails';
-import { McpConfig } from '../config';
-
-export function createCmsActions(
-  planStore: PlanStore,
-  guardrails: Guardrails,
-  config: McpConfig,
-): ActionDefinition[] {
+import { GuardrailError } from '../validation/guardrails';
+import { bulkCommitResult } from '../client/bulkExecutor';
+import { checkPlanDrift, fingerprintTargets, PlanFingerprints } from '../validation/drift';
+
+export function createCmsActions(planStore: PlanStore): ActionDefinition[] {
   return [
     // ── Search Pages ──────────────────────────────────────────────────────
     {
       name: 'cms.search_pages',
+      title: 'Search CMS pages',
       description: 'Search CMS pages by query string.',
       riskTier: RiskTier.Safe,
       requiresAuth: true,
+      writes: false,
+      inputSchema: CmsSearchPagesSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = CmsSearchPagesSchema.parse(params);
         const client = context.getClient();
@@ -55,9 +55,12 @@ export function createCmsActions(
     // ── Get Page ──────────────────────────────────────────────────────────
     {
       name: 'cms.get_page',
+      title: 'Get CMS page',
       description: 'Get a CMS page by ID.',
       riskTier: RiskTier.Safe,
       requiresAuth: true,
+      writes: false,
+      inputSchema: CmsGetPageSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = CmsGetPageSchema.parse(params);
         const client = context.getClient();
@@ -68,10 +71,15 @@ export function createCmsActions(
     // ── Prepare Bulk Update Pages ─────────────────────────────────────────
     {
       name: 'cms.prepare_bulk_update_pages',
+      title: 'Prepare bulk CMS page update',
       description: 'Prepare a bulk update for CMS pages.',
       riskTier: RiskTier.Risk,
       requiresAuth: true,
+      writes: false,
+      requiresConfirmation: false,
+      inputSchema: CmsPrepareBulkUpdatePagesSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
+        const { config, guardrails } = context;
         const validated = CmsPrepareBulkUpdatePagesSchema.parse(params);
 
         guardrails.enforceAllowedFields(
@@ -82,27 +90,34 @@ export function createCmsActions(
 
         const client = context.getClient();
 
-        // Resolve matching pages
-        const pages = await resolveMatchingPages(client, validated.match);
+        // Resolve matching pages; capped on total_count, so a larger match is rejected instead of cut short
+        const matches = await resolveMatchingPages(client, validated.match, config.maxCmsItemsPerBulkCommit);
+        guardrails.enforceBulkCmsCap(matches.total_count, 'pages');
+        const pages = matches.items;
 
-        const sampleDiffs = pages.slice(0, 5).map((p: Record<string, unknown>) => {
+        const diffs = pages.map((p: Record<string, unknown>) => {
           const diff: Record<string, { from: unknown; to: unknown }> = {};
           for (const [field, newValue] of Object.entries(validated.updates)) {
             diff[field] = { from: p[field], to: newValue };
           }
           return { page_id: p['id'], title: p['title'], changes: diff };
         });
+        const sampleDiffs = diffs.slice(0, 5);
 
         const plan = planStore.create(
+          context.sessionId,
           'cms.commit_bulk_update_pages',
           {
             page_ids: pages.map((p: Record<string, unknown>) => p['id']),
             updates: validated.updates,
             scope: validated.scope,
+            fingerprints: fingerprintTargets(pages, (p) => String(p['id']), Object.keys(validated.updates)),
           },
           pages.length,
           config.planExpiryMinutes,
           sampleDiffs,
+          [],
+          diffs,
         );
 
         return {
@@ -118,50 +133,56 @@ export function createCmsActions(
     // ── Commit Bulk Update Pages ──────────────────────────────────────────
     {
       name: 'cms.commit_bulk_update_pages',
+      title: 'Commit bulk CMS page update',
       description: 'Execute a previously prepared CMS page bulk update.',
       riskTier: RiskTier.Risk,
       requiresAuth: true,
+      writes: true,
+      inputSchema: CmsCommitBulkUpdatePagesSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = CmsCommitBulkUpdatePagesSchema.parse(params);
-        guardrails.requireConfirmation(RiskTier.Risk, params);
 
-        const plan = planStore.consume(validated.plan_id);
+        const plan = planStore.get(validated.plan_id, context.sessionId);
         if (!plan) {
-          throw new Error('Plan not found or expired.');
+          throw new GuardrailError(ErrorCodes.PLAN_NOT_FOUND, 'Plan not found or expired. Prepare a new plan.');
         }
 
-        const payload = plan.payload as { page_ids: number[]; updates: Record<string, unknown> };
+        const payload = plan.payload as {
+          page_ids: number[];
+          updates: Record<string, unknown>;
+          fingerprints?: PlanFingerprints;
+        };
         const client = context.getClient();
 
-        let successCount = 0;
-        const errors: Array<{ page_id: number; error: string }> = [];
-
-        for (const pageId of payload.page_ids) {
-          try {
-            await client.put(`/V1/cmsPage/${pageId}`, {
-              page: { id: pageId, ...payload.updates },
-            });
-            successCount++;
-          } catch (err) {
-            errors.push({ page_id: pageId, error: err instanceof Error ? err.message : String(err) });
-          }
+        const drift = await checkPlanDrift(
+          payload.fingerprints,
+          (ids) => loadById(resolveMatchingPages(client, { page_ids: ids.map(Number) })),
+          validated.on_drift,
+        );
+        if (!context.dryRun && !planStore.consume(plan.plan_id, context.sessionId)) {
+          throw new GuardrailError(ErrorCodes.PLAN_NOT_FOUND, 'Plan not found or expired. Prepare a new plan.');
         }
 
-        return {
-          message: `Updated ${successCount}/${payload.page_ids.length} CMS pages.`,
-          success_count: successCount,
-          error_count: errors.length,
-          errors: errors.length > 0 ? errors : undefined,
-        };
+        const pageIds = payload.page_ids.filter((id) => !drift.skipped.has(String(id)));
+        const run = await context.runBulk(pageIds, (id) => String(id), async (pageId) => {
+          await client.put(`/V1/cmsPage/${pageId}`, {
+            page: { id: pageId, ...payload.updates },
+          });
+        });
+        context.recordAffected({ page_ids: run.applied.map(Number) });
+        return { ...bulkCommitResult(run, 'Updated', 'CMS pages', client.retryCount), drift: drift.report };
       },
     },
 
     // ── Search Blocks ─────────────────────────────────────────────────────
     {
       name: 'cms.search_blocks',
+      title: 'Search CMS blocks',
       description: 'Search CMS blocks by query string.',
       riskTier: RiskTier.Safe,
       requiresAuth: true,
+      writes: false,
+      inputSchema: CmsSearchBlocksSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = CmsSearchBlocksSchema.parse(params);
         const client = context.getClient();
@@ -186,9 +207,12 @@ export function createCmsActions(
     // ── Get Block ─────────────────────────────────────────────────────────
     {
       name: 'cms.get_block',
+      title: 'Get CMS block',
       description: 'Get a CMS block by ID.',
       riskTier: RiskTier.Safe,
       requiresAuth: true,
+      writes: false,
+      inputSchema: CmsGetBlockSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = CmsGetBlockSchema.parse(params);
         const client = context.getClient();
@@ -199,10 +223,15 @@ export function createCmsActions(
     // ── Prepare Bulk Update Blocks ────────────────────────────────────────
     {
       name: 'cms.prepare_bulk_update_blocks',
+      title: 'Prepare bulk CMS block update',
       description: 'Prepare a bulk update for CMS blocks.',
       riskTier: RiskTier.Risk,
       requiresAuth: true,
+      writes: false,
+      requiresConfirmation: false,
+      inputSchema: CmsPrepareBulkUpdateBlocksSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
+        const { config, guardrails } = context;
         const validated = CmsPrepareBulkUpdateBlocksSchema.parse(params);
 
         guardrails.enforceAllowedFields(
@@ -212,26 +241,33 @@ export function createCmsActions(
         );
 
         const client = context.getClient();
-        const blocks = await resolveMatchingBlocks(client, validated.match);
+        const matches = await resolveMatchingBlocks(client, validated.match, config.maxCmsItemsPerBulkCommit);
+        guardrails.enforceBulkCmsCap(matches.total_count, 'blocks');
+        const blocks = matches.items;
 
-        const sampleDiffs = blocks.slice(0, 5).map((b: Record<string, unknown>) => {
+        const diffs = blocks.map((b: Record<string, unknown>) => {
           const diff: Record<string, { from: unknown; to: unknown }> = {};
           for (const [field, newValue] of Object.entries(validated.updates)) {
             diff[field] = { from: b[field], to: newValue };
           }
           return { block_id: b['id'], title: b['title'], changes: diff };
         });
+        const sampleDiffs = diffs.slice(0, 5);
 
         const plan = planStore.create(
+          context.sessionId,
           'cms.commit_bulk_update_blocks',
           {
             block_ids: blocks.map((b: Record<string, unknown>) => b['id']),
             updates: validated.updates,
             scope: validated.scope,
+            fingerprints: fingerprintTargets(blocks, (b) => String(b['id']), Object.keys(validated.updates)),
           },
           blocks.length,
           config.planExpiryMinutes,
           sampleDiffs,
+          [],
+          diffs,
         );
 
         return {
@@ -247,41 +283,44 @@ export function createCmsActions(
     // ── Commit Bulk Update Blocks ─────────────────────────────────────────
     {
       name: 'cms.commit_bulk_update_blocks',
+      title: 'Commit bulk CMS block update',
       description: 'Execute a previously prepared CMS block bulk update.',
       riskTier: RiskTier.Risk,
       requiresAuth: true,
+      writes: true,
+      inputSchema: CmsCommitBulkUpdateBlocksSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = CmsCommitBulkUpdateBlocksSchema.parse(params);
-        guardrails.requireConfirmation(RiskTier.Risk, params);
 
-        const plan = planStore.consume(validated.plan_id);
+        const plan = planStore.get(validated.plan_id, context.sessionId);
         if (!plan) {
-          throw new Error('Plan not found or expired.');
+          throw new GuardrailError(ErrorCodes.PLAN_NOT_FOUND, 'Plan not found or expired. Prepare a new plan.');
         }
 
-        const payload = plan.payload as { block_ids: number[]; updates: Record<string, unknown> };
+        const payload = plan.payload as {
+          block_ids: number[];
+          updates: Record<string, unknown>;
+          fingerprints?: PlanFingerprints;
+        };
         const client = context.getClient();
 
-        let successCount = 0;
-        const errors: Array<{ block_id: number; error: string }> = [];
-
-        for (const blockId of payload.block_ids) {
-          try {
-            await client.put(`/V1/cmsBlock/${blockId}`, {
-              block: { id: blockId, ...payload.updates },
-            });
-            successCount++;
-          } catch (err) {
-            errors.push({ block_id: blockId, error: err instanceof Error ? err.message : String(err) });
-          }
+        const drift = await checkPlanDrift(
+          payload.fingerprints,
+          (ids) => loadById(resolveMatchingBlocks(client, { block_ids: ids.map(Number) })),
+          validated.on_drift,
+        );
+        if (!context.dryRun && !planStore.consume(plan.plan_id, context.sessionId)) {
+          throw new GuardrailError(ErrorCodes.PLAN_NOT_FOUND, 'Plan not found or expired. Prepare a new plan.');
         }
 
-        return {
-          message: `Updated ${successCount}/${payload.block_ids.length} CMS blocks.`,
-          success_count: successCount,
-          error_count: errors.length,
-          errors: errors.length > 0 ? errors : undefined,
-        };
+        const blockIds = payload.block_ids.filter((id) => !drift.skipped.has(String(id)));
+        const run = await context.runBulk(blockIds, (id) => String(id), async (blockId) => {
+          await client.put(`/V1/cmsBlock/${blockId}`, {
+            block: { id: blockId, ...payload.updates },
+          });
+        });
+        context.recordAffected({ block_ids: run.applied.map(Number) });
+        return { ...bulkCommitResult(run, 'Updated', 'CMS blocks', client.retryCount), drift: drift.report };
       },
     },
   ];
@@ -292,7 +331,8 @@ export function createCmsActions(
 async function resolveMatchingPages(
   client: MagentoRestClient,
   match: { page_ids?: number[]; identifier?: string },
-): Promise<Array<Record<string, unknown>>> {
+  maxItems?: number,
+): Promise<MagentoSearchResult<Record<string, unknown>>> {
   const filterGroups: Array<{ filters: Array<{ field: string; value: string; conditionType?: string }> }> = [];
 
   if (match.page_ids && match.page_ids.length > 0) {
@@ -306,19 +346,16 @@ async function resolveMatchingPages(
     });
   }
 
-  const searchParams = client.buildSearchParams({
+  return client.searchAll('/V1/cmsPage/search', {
     filterGroups: filterGroups.length > 0 ? filterGroups : undefined,
-    pageSize: 200,
-  });
-
-  const result = await client.get<{ items: Array<Record<string, unknown>> }>('/V1/cmsPage/search', searchParams);
-  return result.items || [];
+  }, { maxItems });
 }
 
 async function resolveMatchingBlocks(
   client: MagentoRestClient,
   match: { block_ids?: number[]; identifier?: string },
-): Promise<Array<Record<string, unknown>>> {
+  maxItems?: number,
+): Promise<MagentoSearchResult<Record<string, unknown>>> {
   const filterGroups: Array<{ filters: Array<{ field: string; value: string; conditionType?: string }> }> = [];
 
   if (match.block_ids && match.block_ids.length > 0) {
@@ -332,11 +369,14 @@ async function resolveMatchingBlocks(
     });
   }
 
-  const searchParams = client.buildSearchParams({
+  return client.searchAll('/V1/cmsBlock/search', {
     filterGroups: filterGroups.length > 0 ? filterGroups : undefined,
-    pageSize: 200,
-  });
+  }, { maxItems });
+}
 
-  const result = await client.get<{ items: Array<Record<string, unknown>> }>('/V1/cmsBlock/search', searchParams);
-  return result.items || [];
+/** Key search results by entity ID */
+async function loadById(
+  search: Promise<MagentoSearchResult<Record<string, unknown>>>,
+): Promise<Map<string, Record<string, unknown>>> {
+  return new Map((await search).items.map((item) => [String(item['id']), item]));
 }
@@ -7,6 +7,7 @@ import { ActionDefinition, ActionContext, RiskTier } from '../protocol/types';
 import {
   DiagnosticsProductDisplaySchema,
   DiagnosticsInventorySchema,
+  NoParamsSchema,
 } from '../validation/schemas';
 
 export function createDiagnosticsActions(): ActionDefinition[] {
@@ -14,9 +15,12 @@ export function createDiagnosticsActions(): ActionDefinition[] {
     // ── Product Display Check ─────────────────────────────────────────────
     {
       name: 'diagnostics.product_display_check',
+      title: 'Check product storefront visibility',
       description: 'Check why a product may not be displaying correctly on the storefront.',
       riskTier: RiskTier.Safe,
       requiresAuth: true,
+      writes: false,
+      inputSchema: DiagnosticsProductDisplaySchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = DiagnosticsProductDisplaySchema.parse(params);
         const client = context.getClient();
@@ -134,9 +138,12 @@ export function createDiagnosticsActions(): ActionDefinition[] {
     // ── Indexer Status Report ─────────────────────────────────────────────
     {
       name: 'diagnostics.indexer_status_report',
+      title: 'Report indexer status',
       description: 'Report on the status of all Magento indexers.',
       riskTier: RiskTier.Safe,
       requiresAuth: true,
+      writes: false,
+      inputSchema: NoParamsSchema,
       handler: async (_params: Record<string, unknown>, context: ActionContext) => {
         const client = context.getClient();
 
@@ -169,9 +176,12 @@ export function createDiagnosticsActions(): ActionDefinition[] {
     // ── Inventory Salable Report ──────────────────────────────────────────
     {
       name: 'diagnostics.inventory_salable_report',
+      title: 'Report salable inventory',
       description: 'Report on MSI salable quantity for a product.',
       riskTier: RiskTier.Safe,
       requiresAuth: true,
+      writes: false,
+      inputSchema: DiagnosticsInventorySchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = DiagnosticsInventorySchema.parse(params);
         const client = context.getClient();
@@ -0,0 +1,118 @@
+/**
+ * Plan actions: list, inspect and cancel prepared two-phase commit plans.
+ */
+
+import { ActionDefinition, ActionContext, RiskTier, ErrorCodes } from '../protocol/types';
+import { NoParamsSchema, PlansGetSchema, PlansCancelSchema } from '../validation/schemas';
+import { PlanStore } from '../session/planStore';
+import { GuardrailError } from '../validation/guardrails';
+
+const DEFAULT_DIFF_PAGE_SIZE = 100;
+// plans.list shows this many warnings per plan; plans.get returns all of them
+const LISTED_WARNINGS = 5;
+
+export function createPlanActions(planStore: PlanStore): ActionDefinition[] {
+  return [
+    // ── List ──────────────────────────────────────────────────────────────
+    {
+      name: 'plans.list',
+      title: 'List pending plans',
+      description: 'List pending plans of the current user and profile, oldest first, with time to expiry.',
+      riskTier: RiskTier.Safe,
+      requiresAuth: true,
+      writes: false,
+      inputSchema: NoParamsSchema,
+      handler: async (_params: Record<string, unknown>, context: ActionContext) => {
+        const plans = planStore.list(context.sessionId);
+        return {
+          count: plans.length,
+          plans: plans.map((plan) => {
+            const warnings = plan.warnings ?? [];
+            return {
+              plan_id: plan.plan_id,
+              action: plan.action,
+              affected_count: plan.affected_count,
+              created_at: plan.created_at,
+              expires_at: plan.expires_at,
+              expires_in_seconds: secondsUntil(plan.expires_at),
+              warning_count: warnings.length,
+              warnings: warnings.length > 0 ? warnings.slice(0, LISTED_WARNINGS) : undefined,
+            };
+          }),
+        };
+      },
+    },
+
+    // ── Get ───────────────────────────────────────────────────────────────
+    {
+      name: 'plans.get',
+      title: 'Inspect a plan',
+      description: 'Return a pending plan with its full payload, warnings and every diff, paginated.',
+      riskTier: RiskTier.Safe,
+      requiresAuth: true,
+      writes: false,
+      inputSchema: PlansGetSchema,
+      handler: async (params: Record<string, unknown>, context: ActionContext) => {
+        const validated = PlansGetSchema.parse(params);
+        const plan = planStore.get(validated.plan_id, context.sessionId);
+        if (!plan) {
+          throw new GuardrailError(ErrorCodes.PLAN_NOT_FOUND, 'Plan not found or expired.');
+        }
+
+        // Plans saved before full diffs were kept only have their sample
+        const diffs = plan.diffs ?? plan.sample_diffs ?? [];
+        const pageSize = validated.page_size ?? DEFAULT_DIFF_PAGE_SIZE;
+        const totalPages = Math.max(1, Math.ceil(diffs.length / pageSize));
+        const page = Math.min(validated.page ?? 1, totalPages);
+
+        return {
+          plan_id: plan.plan_id,
+          action: plan.action,
+          profile: plan.profile,
+          username: plan.username,
+          created_at: plan.created_at,
+          expires_at: plan.expires_at,
+          expires_in_seconds: secondsUntil(plan.expires_at),
+          affected_count: plan.affected_count,
+          warnings: plan.warnings ?? [],
+          payload: plan.payload,
+          diffs: diffs.slice((page - 1) * pageSize, page * pageSize),
+          diff_page: {
+            page,
+            page_size: pageSize,
+            total_diffs: diffs.length,
+            total_pages: totalPages,
+            complete: plan.diffs !== undefined,
+          },
+        };
+      },
+    },
+
+    // ── Cancel ────────────────────────────────────────────────────────────
+    {
+      name: 'plans.cancel',
+      title: 'Cancel a plan',
+      description: 'Discard a pending plan so it can no longer be committed.',
+      riskTier: RiskTier.Safe,
+      requiresAuth: true,
+      writes: false,
+      inputSchema: PlansCancelSchema,
+      handler: async (params: Record<string, unknown>, context: ActionContext) => {
+        const validated = PlansCancelSchema.parse(params);
+        const plan = planStore.discard(validated.plan_id, context.sessionId);
+        if (!plan) {
+          throw new GuardrailError(ErrorCodes.PLAN_NOT_FOUND, 'Plan not found or expired.');
+        }
+        return {
+          message: `Plan ${plan.plan_id} (${plan.action}, ${plan.affected_count} items) cancelled.`,
+          plan_id: plan.plan_id,
+          action: plan.action,
+        };
+      },
+    },
+  ];
+}
+
+function secondsUntil(isoDate: string): number {
+  return Math.max(0, Math.floor((Date.parse(isoDate) - Date.now()) / 1000));
+}
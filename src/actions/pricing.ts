@@ -2,42 +2,49 @@
  * Pricing actions: Bulk price updates (two-phase commit).
  */
 
-import { ActionDefinition, ActionContext, RiskTier } from '../protocol/types';
+import { ActionDefinition, ActionContext, RiskTier, ErrorCodes } from '../protocol/types';
 import {
   PrepareBulkPriceUpdateSchema,
   CommitBulkPriceUpdateSchema,
+  AttributeFilter,
 } from '../validation/schemas';
-import { MagentoRestClient } from '../client/magentoRest';
+import { MagentoRestClient, MagentoSearchResult } from '../client/magentoRest';
 // Note: MagentoRestClient import kept for resolvePricingProducts helper
 import { PlanStore } from '../session/planStore';
-import { Guardrails } from '../validation/guardrails';
-import { IdempotencyLedger } from '../session/idempotencyLedger';
-import { McpConfig } from '../config';
-
-export function createPricingActions(
-  planStore: PlanStore,
-  guardrails: Guardrails,
-  idempotencyLedger: IdempotencyLedger,
-  config: McpConfig,
-): ActionDefinition[] {
+import { GuardrailError } from '../validation/guardrails';
+import { checkPlanDrift, fingerprintTargets, PlanFingerprints } from '../validation/drift';
+import { commitProductUpdates, fetchProductsBySku } from './bulk';
+
+export function createPricingActions(planStore: PlanStore): ActionDefinition[] {
   return [
     // ── Prepare Bulk Price Update ─────────────────────────────────────────
     {
       name: 'pricing.prepare_bulk_price_update',
+      title: 'Prepare bulk price update',
       description: 'Prepare a bulk price update. Returns plan with affected count, diffs, and warnings.',
       riskTier: RiskTier.Risk,
       requiresAuth: true,
+      writes: false,
+      requiresConfirmation: false,
+      inputSchema: PrepareBulkPriceUpdateSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
+        const { config, guardrails } = context;
         const validated = PrepareBulkPriceUpdateSchema.parse(params);
         const client = context.getClient();
 
         // Resolve matching products
-        const products = await resolvePricingProducts(client, validated.match, validated.scope?.store_view_code);
-        guardrails.enforceBulkSkuCap(products.length);
+        const matches = await resolvePricingProducts(
+          client,
+          validated.match,
+          validated.scope?.store_view_code,
+          config.maxSkusPerBulkCommit,
+        );
+        guardrails.enforceBulkSkuCap(matches.total_count);
+        const products = matches.items;
 
-        // Build sample diffs and check price thresholds
+        // Build diffs and check price thresholds for every product
         const warnings: string[] = [];
-        const sampleDiffs = products.slice(0, 5).map((p: Record<string, unknown>) => {
+        const diffs = products.map((p: Record<string, unknown>) => {
           const diff: Record<string, { from: unknown; to: unknown }> = {};
 
           if (validated.price_updates.price !== undefined) {
@@ -55,22 +62,26 @@ export function createPricingActions(
 
           return { sku: p['sku'], changes: diff };
         });
+        const sampleDiffs = diffs.slice(0, 5);
 
         if (products.length > 100) {
           warnings.push(`Large bulk price update: ${products.length} products will be affected.`);
         }
 
         const plan = planStore.create(
+          context.sessionId,
           'pricing.commit_bulk_price_update',
           {
             skus: products.map((p: Record<string, unknown>) => p['sku']),
             price_updates: validated.price_updates,
             scope: validated.scope,
+            fingerprints: fingerprintTargets(products, (p) => String(p['sku']), Object.keys(validated.price_updates)),
           },
           products.length,
           config.planExpiryMinutes,
           sampleDiffs,
           warnings,
+          diffs,
         );
 
         return {
@@ -87,64 +98,50 @@ export function createPricingActions(
     // ── Commit Bulk Price Update ──────────────────────────────────────────
     {
       name: 'pricing.commit_bulk_price_update',
+      title: 'Commit bulk price update',
       description: 'Execute a previously prepared bulk price update.',
       riskTier: RiskTier.Risk,
       requiresAuth: true,
+      writes: true,
+      inputSchema: CommitBulkPriceUpdateSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
+        const { config } = context;
         const validated = CommitBulkPriceUpdateSchema.parse(params);
-        guardrails.requireConfirmation(RiskTier.Risk, params);
-
-        // Check idempotency
-        if (validated.idempotency_key) {
-          const existing = idempotencyLedger.get(validated.idempotency_key);
-          if (existing) {
-            return {
-              message: 'Operation already completed (idempotency match)',
-              previous_result: existing.result_summary,
-            };
-          }
-        }
 
-        const plan = planStore.consume(validated.plan_id);
+        const plan = planStore.get(validated.plan_id, context.sessionId);
         if (!plan) {
-          throw new Error('Plan not found or expired. Prepare a new plan.');
+          throw new GuardrailError(ErrorCodes.PLAN_NOT_FOUND, 'Plan not found or expired. Prepare a new plan.');
         }
 
         const payload = plan.payload as {
           skus: string[];
           price_updates: Record<string, unknown>;
           scope: Record<string, string>;
+          fingerprints?: PlanFingerprints;
         };
 
         const client = context.getClient();
         const storeCode = payload.scope?.store_view_code;
 
-        let successCount = 0;
-        const errors: Array<{ sku: string; error: string }> = [];
-
-        for (const sku of payload.skus) {
-          try {
-            await client.put(`/V1/products/${encodeURIComponent(sku)}`, {
-              product: { sku, ...payload.price_updates },
-            }, storeCode);
-            successCount++;
-          } catch (err) {
-            errors.push({ sku, error: err instanceof Error ? err.message : String(err) });
-          }
+        // Prices changed by someone else since prepare are not overwritten blindly
+        const drift = await checkPlanDrift(
+          payload.fingerprints,
+          (skus) => fetchProductsBySku(client, skus, storeCode),
+          validated.on_drift,
+        );
+        if (!context.dryRun && !planStore.consume(plan.plan_id, context.sessionId)) {
+          throw new GuardrailError(ErrorCodes.PLAN_NOT_FOUND, 'Plan not found or expired. Prepare a new plan.');
         }
 
-        const summary = `Updated prices for ${successCount}/${payload.skus.length} products. ${errors.length} errors.`;
-
-        if (validated.idempotency_key) {
-          idempotencyLedger.record(validated.idempotency_key, 'pricing.commit_bulk_price_update', summary);
-        }
+        const result = await commitProductUpdates(context, client, {
+          skus: payload.skus.filter((sku) => !drift.skipped.has(sku)),
+          productFor: (sku) => ({ sku, ...payload.price_updates }),
+          storeCode,
+          useAsync: validated.async_bulk ?? config.asyncBulk,
+          verb: 'Updated prices for',
+        });
 
-        return {
-          message: summary,
-          success_count: successCount,
-          error_count: errors.length,
-          errors: errors.length > 0 ? errors : undefined,
-        };
+        return { ...result, drift: drift.report };
       },
     },
   ];
@@ -152,9 +149,10 @@ export function createPricingActions(
 
 async function resolvePricingProducts(
   client: MagentoRestClient,
-  match: { sku_list?: string[]; sku_prefix?: string; attribute_filters?: Record<string, unknown>; category_id?: number },
+  match: { sku_list?: string[]; sku_prefix?: string; attribute_filters?: Record<string, AttributeFilter>; category_id?: number },
   storeCode?: string,
-): Promise<Array<Record<string, unknown>>> {
+  maxItems?: number,
+): Promise<MagentoSearchResult<Record<string, unknown>>> {
   const filterGroups: Array<{ filters: Array<{ field: string; value: string; conditionType?: string }> }> = [];
 
   if (match.sku_list && match.sku_list.length > 0) {
@@ -169,24 +167,14 @@ async function resolvePricingProducts(
   }
   if (match.attribute_filters) {
     for (const [field, spec] of Object.entries(match.attribute_filters)) {
-      if (typeof spec === 'object' && spec !== null) {
-        const s = spec as Record<string, string>;
-        filterGroups.push({
-          filters: [{ field, value: s['value'] || '', conditionType: s['condition'] || 'eq' }],
-        });
-      } else {
-        filterGroups.push({
-          filters: [{ field, value: String(spec), conditionType: 'eq' }],
-        });
-      }
+      const filter = typeof spec === 'object' ? spec : { value: spec, condition: undefined };
+      filterGroups.push({
+        filters: [{ field, value: String(filter.value), conditionType: filter.condition ?? 'eq' }],
+      });
     }
   }
 
-  const searchParams = client.buildSearchParams({
+  return client.searchAll('/V1/products', {
     filterGroups: filterGroups.length > 0 ? filterGroups : undefined,
-    pageSize: 2000,
-  });
-
-  const result = await client.get<{ items: Array<Record<string, unknown>> }>('/V1/products', searchParams, storeCode);
-  return result.items || [];
+  }, { storeCode, maxItems });
 }
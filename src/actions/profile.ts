@@ -0,0 +1,85 @@
+/**
+ * Profile actions: list and switch named connection profiles.
+ */
+
+import { ActionDefinition, ActionContext, RiskTier, ErrorCodes } from '../protocol/types';
+import { NoParamsSchema, ProfileUseSchema } from '../validation/schemas';
+import { SessionStore } from '../session/sessionStore';
+import { ProfileRegistry } from '../config/profiles';
+import { GuardrailError } from '../validation/guardrails';
+import { establishSession } from './auth';
+
+export function createProfileActions(sessionStore: SessionStore, profiles: ProfileRegistry): ActionDefinition[] {
+  return [
+    {
+      name: 'profile.list',
+      title: 'List connection profiles',
+      description: 'List the configured Magento connection profiles and which one the session is using.',
+      riskTier: RiskTier.Safe,
+      requiresAuth: false,
+      writes: false,
+      inputSchema: NoParamsSchema,
+      handler: async (_params: Record<string, unknown>, context: ActionContext) => {
+        const active = context.profile;
+        return {
+          active_profile: active,
+          profiles: profiles.list().map((profile) => ({
+            name: profile.name,
+            description: profile.description ?? undefined,
+            environment: profile.environment,
+            base_url: profile.baseUrl,
+            auth_method: profile.credentials.type,
+            fastly: profile.fastly !== null,
+            guardrail_overrides: Object.keys(profile.overrides).length > 0 ? profile.overrides : undefined,
+            active: profile.name === active,
+            usable: profile.missingEnv.length === 0,
+            missing_env: profile.missingEnv.length > 0 ? profile.missingEnv : undefined,
+          })),
+        };
+      },
+    },
+    {
+      name: 'profile.use',
+      title: 'Switch connection profile',
+      description: 'Log in to the Magento instance of a connection profile. Plans stay tied to the profile they were prepared on.',
+      riskTier: RiskTier.Safe,
+      requiresAuth: false,
+      writes: false,
+      inputSchema: ProfileUseSchema,
+      handler: async (params: Record<string, unknown>, context: ActionContext) => {
+        const validated = ProfileUseSchema.parse(params);
+
+        const profile = profiles.get(validated.name);
+        if (!profile) {
+          throw new GuardrailError(
+            ErrorCodes.NOT_FOUND,
+            `Unknown profile "${validated.name}".`,
+            { available: profiles.list().map((p) => p.name) },
+          );
+        }
+        if (profile.missingEnv.length > 0) {
+          throw new GuardrailError(
+            ErrorCodes.VALIDATION_ERROR,
+            `Profile "${profile.name}" references unset environment variables: ${profile.missingEnv.join(', ')}.`,
+          );
+        }
+
+        const login = await establishSession(
+          sessionStore,
+          profiles.configFor(profile.name),
+          context.sessionId,
+          profile.baseUrl,
+          profile.credentials,
+        );
+        sessionStore.setProfile(context.sessionId, profile.name);
+
+        return {
+          ...login,
+          message: `Now using profile "${profile.name}" (${profile.environment}).`,
+          profile: profile.name,
+          environment: profile.environment,
+        };
+      },
+    },
+  ];
+}
@@ -2,7 +2,7 @@
  * Promotions actions: Cart price rules and coupon management.
  */
 
-import { ActionDefinition, ActionContext, RiskTier } from '../protocol/types';
+import { ActionDefinition, ActionContext, RiskTier, ErrorCodes } from '../protocol/types';
 import {
   PrepareCartPriceRuleCreateSchema,
   CommitPlanSchema,
@@ -15,22 +15,22 @@ import {
   ExportCouponsSchema,
 } from '../validation/schemas';
 import { PlanStore } from '../session/planStore';
-import { Guardrails } from '../validation/guardrails';
-import { McpConfig } from '../config';
-
-export function createPromotionsActions(
-  planStore: PlanStore,
-  guardrails: Guardrails,
-  config: McpConfig,
-): ActionDefinition[] {
+import { GuardrailError } from '../validation/guardrails';
+
+export function createPromotionsActions(planStore: PlanStore): ActionDefinition[] {
   return [
     // ── Prepare Cart Price Rule Create ────────────────────────────────────
     {
       name: 'promotions.prepare_cart_price_rule_create',
+      title: 'Prepare cart price rule',
       description: 'Validate and prepare a cart price rule for creation. Returns a plan for review.',
       riskTier: RiskTier.Risk,
       requiresAuth: true,
-      handler: async (params: Record<string, unknown>, _context: ActionContext) => {
+      writes: false,
+      requiresConfirmation: false,
+      inputSchema: PrepareCartPriceRuleCreateSchema,
+      handler: async (params: Record<string, unknown>, context: ActionContext) => {
+        const { config, guardrails } = context;
         const validated = PrepareCartPriceRuleCreateSchema.parse(params);
 
         // Enforce guardrails
@@ -45,7 +45,7 @@ export function createPromotionsActions(
         // Validate date ordering
         if (rulePayload.from_date && rulePayload.to_date) {
           if (new Date(rulePayload.to_date) <= new Date(rulePayload.from_date)) {
-            throw new Error('to_date must be after from_date');
+            throw new GuardrailError(ErrorCodes.VALIDATION_ERROR, 'to_date must be after from_date');
           }
         }
 
@@ -58,12 +58,14 @@ export function createPromotionsActions(
         }
 
         const plan = planStore.create(
+          context.sessionId,
           'promotions.commit_cart_price_rule_create',
           rulePayload,
           1,
           config.planExpiryMinutes,
           [rulePayload],
           warnings,
+          [rulePayload],
         );
 
         return {
@@ -79,16 +81,20 @@ export function createPromotionsActions(
     // ── Commit Cart Price Rule Create ─────────────────────────────────────
     {
       name: 'promotions.commit_cart_price_rule_create',
+      title: 'Create cart price rule',
       description: 'Execute a previously prepared cart price rule creation.',
       riskTier: RiskTier.Risk,
       requiresAuth: true,
+      writes: true,
+      inputSchema: CommitPlanSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = CommitPlanSchema.parse(params);
-        guardrails.requireConfirmation(RiskTier.Risk, params);
 
-        const plan = planStore.consume(validated.plan_id);
+        const plan = context.dryRun
+          ? planStore.get(validated.plan_id, context.sessionId)
+          : planStore.consume(validated.plan_id, context.sessionId);
         if (!plan) {
-          throw new Error('Plan not found or expired. Prepare a new plan.');
+          throw new GuardrailError(ErrorCodes.PLAN_NOT_FOUND, 'Plan not found or expired. Prepare a new plan.');
         }
 
         const client = context.getClient();
@@ -117,7 +123,10 @@ export function createPromotionsActions(
           },
         };
 
-        const result = await client.post('/V1/salesRules', magentoRule);
+        const result = await client.post<Record<string, unknown> | null>('/V1/salesRules', magentoRule);
+        if (typeof result?.['rule_id'] === 'number') {
+          context.recordAffected({ rule_ids: [result['rule_id']] });
+        }
         return {
           message: 'Cart price rule created successfully',
           rule: result,
@@ -128,9 +137,12 @@ export function createPromotionsActions(
     // ── Search Rules ──────────────────────────────────────────────────────
     {
       name: 'promotions.search_rules',
+      title: 'Search cart price rules',
       description: 'Search cart price rules by query, website, or enabled status.',
       riskTier: RiskTier.Safe,
       requiresAuth: true,
+      writes: false,
+      inputSchema: SearchRulesSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = SearchRulesSchema.parse(params);
         const client = context.getClient();
@@ -162,9 +174,12 @@ export function createPromotionsActions(
     // ── Get Rule ──────────────────────────────────────────────────────────
     {
       name: 'promotions.get_rule',
+      title: 'Get cart price rule',
       description: 'Get details of a specific cart price rule.',
       riskTier: RiskTier.Safe,
       requiresAuth: true,
+      writes: false,
+      inputSchema: GetRuleSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = GetRuleSchema.parse(params);
         const client = context.getClient();
@@ -176,12 +191,14 @@ export function createPromotionsActions(
     // ── Update Rule ───────────────────────────────────────────────────────
     {
       name: 'promotions.update_rule',
+      title: 'Update cart price rule',
       description: 'Update an existing cart price rule.',
       riskTier: RiskTier.Risk,
       requiresAuth: true,
+      writes: true,
+      inputSchema: UpdateRuleSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = UpdateRuleSchema.parse(params);
-        guardrails.requireConfirmation(RiskTier.Risk, params);
 
         const client = context.getClient();
         const result = await client.put(`/V1/salesRules/${validated.rule_id}`, {
@@ -194,12 +211,14 @@ export function createPromotionsActions(
     // ── Enable Rule ───────────────────────────────────────────────────────
     {
       name: 'promotions.enable_rule',
+      title: 'Enable cart price rule',
       description: 'Enable a cart price rule.',
       riskTier: RiskTier.Risk,
       requiresAuth: true,
+      writes: true,
+      inputSchema: EnableRuleSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = EnableRuleSchema.parse(params);
-        guardrails.requireConfirmation(RiskTier.Risk, params);
 
         const client = context.getClient();
         const result = await client.put(`/V1/salesRules/${validated.rule_id}`, {
@@ -212,9 +231,12 @@ export function createPromotionsActions(
     // ── Disable Rule ──────────────────────────────────────────────────────
     {
       name: 'promotions.disable_rule',
+      title: 'Disable cart price rule',
       description: 'Disable a cart price rule.',
       riskTier: RiskTier.Safe,
       requiresAuth: true,
+      writes: true,
+      inputSchema: DisableRuleSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = DisableRuleSchema.parse(params);
         const client = context.getClient();
@@ -228,13 +250,16 @@ export function createPromotionsActions(
     // ── Generate Coupons ──────────────────────────────────────────────────
     {
       name: 'promotions.generate_coupons',
+      title: 'Generate coupon codes',
       description: 'Generate coupon codes for an existing cart price rule.',
       riskTier: RiskTier.Risk,
       requiresAuth: true,
+      writes: true,
+      inputSchema: GenerateCouponsSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
+        const { guardrails } = context;
         const validated = GenerateCouponsSchema.parse(params);
         guardrails.enforceCouponCap(validated.qty);
-        guardrails.requireConfirmation(RiskTier.Risk, params);
 
         const client = context.getClient();
 
@@ -264,23 +289,23 @@ export function createPromotionsActions(
     // ── Export Coupons ────────────────────────────────────────────────────
     {
       name: 'promotions.export_coupons',
+      title: 'Export coupon codes',
       description: 'Export coupon codes for a rule in CSV format.',
       riskTier: RiskTier.Safe,
       requiresAuth: true,
+      writes: false,
+      inputSchema: ExportCouponsSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = ExportCouponsSchema.parse(params);
         const client = context.getClient();
 
         // Fetch coupons for the rule
-        const searchParams = client.buildSearchParams({
+        const result = await client.searchAll('/V1/coupons/search', {
           filterGroups: [
             { filters: [{ field: 'rule_id', value: String(validated.rule_id), conditionType: 'eq' }] },
           ],
-          pageSize: 10000,
         });
-
-        const result = await client.get<{ items: Array<Record<string, unknown>> }>('/V1/coupons/search', searchParams);
-        const items = result.items || [];
+        const items = result.items;
 
         // Convert to CSV
         const headers = ['coupon_id', 'code', 'usage_limit', 'usage_per_customer', 'times_used', 'is_primary', 'created_at', 'expiration_date'];
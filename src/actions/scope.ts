@@ -3,16 +3,19 @@
  */
 
 import { ActionDefinition, ActionContext, RiskTier } from '../protocol/types';
-import { ScopeSetDefaultSchema } from '../validation/schemas';
+import { ScopeSetDefaultSchema, NoParamsSchema } from '../validation/schemas';
 import { SessionStore } from '../session/sessionStore';
 
 export function createScopeActions(sessionStore: SessionStore): ActionDefinition[] {
   return [
     {
       name: 'scope.list_websites_stores',
+      title: 'List websites and stores',
       description: 'List all websites, stores, and store views configured in Magento.',
       riskTier: RiskTier.Safe,
       requiresAuth: true,
+      writes: false,
+      inputSchema: NoParamsSchema,
       handler: async (_params: Record<string, unknown>, context: ActionContext) => {
         const client = context.getClient();
 
@@ -33,9 +36,12 @@ export function createScopeActions(sessionStore: SessionStore): ActionDefinition
     },
     {
       name: 'scope.set_default',
+      title: 'Set default store view',
       description: 'Set the default store view scope for the current session.',
       riskTier: RiskTier.Safe,
       requiresAuth: true,
+      writes: false,
+      inputSchema: ScopeSetDefaultSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = ScopeSetDefaultSchema.parse(params);
 
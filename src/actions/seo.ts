@@ -2,38 +2,48 @@
  * SEO actions: URL key management, meta updates, redirect chain reports.
  */
 
-import { ActionDefinition, ActionContext, RiskTier } from '../protocol/types';
+import { ActionDefinition, ActionContext, RiskTier, ErrorCodes } from '../protocol/types';
 import {
   SeoPrepareBulkUrlKeysSchema,
   SeoCommitBulkUrlKeysSchema,
   SeoBulkUpdateMetaSchema,
   SeoRedirectChainsSchema,
+  AttributeFilter,
 } from '../validation/schemas';
-import { MagentoRestClient } from '../client/magentoRest';
+import { MagentoRestClient, MagentoSearchResult } from '../client/magentoRest';
 // Note: MagentoRestClient import kept for resolveProducts helper
 import { PlanStore } from '../session/planStore';
-import { Guardrails } from '../validation/guardrails';
-import { McpConfig } from '../config';
-
-export function createSeoActions(
-  planStore: PlanStore,
-  guardrails: Guardrails,
-  config: McpConfig,
-): ActionDefinition[] {
+import { GuardrailError } from '../validation/guardrails';
+import { bulkCommitResult } from '../client/bulkExecutor';
+import { checkPlanDrift, fingerprintTargets, PlanFingerprints } from '../validation/drift';
+import { fetchProductsBySku } from './bulk';
+
+export function createSeoActions(planStore: PlanStore): ActionDefinition[] {
   return [
     // ── Prepare Bulk URL Key Update ───────────────────────────────────────
     {
       name: 'seo.prepare_bulk_update_url_keys',
+      title: 'Prepare bulk URL key update',
       description: 'Prepare a bulk URL key update with collision validation and redirect plan.',
       riskTier: RiskTier.Risk,
       requiresAuth: true,
+      writes: false,
+      requiresConfirmation: false,
+      inputSchema: SeoPrepareBulkUrlKeysSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
+        const { config, guardrails } = context;
         const validated = SeoPrepareBulkUrlKeysSchema.parse(params);
         const client = context.getClient();
 
         // Resolve products
-        const products = await resolveProducts(client, validated.match, validated.scope?.store_view_code);
-        guardrails.enforceBulkSkuCap(products.length);
+        const matches = await resolveProducts(
+          client,
+          validated.match,
+          validated.scope?.store_view_code,
+          config.maxSkusPerBulkCommit,
+        );
+        guardrails.enforceBulkSkuCap(matches.total_count);
+        const products = matches.items;
 
         // Compute new URL keys and check for collisions
         const urlKeyChanges: Array<{ sku: string; old_url_key: string; new_url_key: string }> = [];
@@ -75,15 +85,18 @@ export function createSeoActions(
         }
 
         const plan = planStore.create(
+          context.sessionId,
           'seo.commit_bulk_update_url_keys',
           {
             changes: urlKeyChanges,
             scope: validated.scope,
+            fingerprints: fingerprintTargets(products, (p) => String(p['sku']), ['url_key']),
           },
           products.length,
           config.planExpiryMinutes,
           urlKeyChanges.slice(0, 10),
           warnings,
+          urlKeyChanges,
         );
 
         return {
@@ -101,50 +114,54 @@ export function createSeoActions(
     // ── Commit Bulk URL Key Update ────────────────────────────────────────
     {
       name: 'seo.commit_bulk_update_url_keys',
+      title: 'Commit bulk URL key update',
       description: 'Execute a previously prepared bulk URL key update.',
       riskTier: RiskTier.Risk,
       requiresAuth: true,
+      writes: true,
+      inputSchema: SeoCommitBulkUrlKeysSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = SeoCommitBulkUrlKeysSchema.parse(params);
-        guardrails.requireConfirmation(RiskTier.Risk, params);
 
-        const plan = planStore.consume(validated.plan_id);
+        const plan = planStore.get(validated.plan_id, context.sessionId);
         if (!plan) {
-          throw new Error('Plan not found or expired.');
+          throw new GuardrailError(ErrorCodes.PLAN_NOT_FOUND, 'Plan not found or expired. Prepare a new plan.');
         }
 
         const payload = plan.payload as {
           changes: Array<{ sku: string; new_url_key: string }>;
           scope: Record<string, string>;
+          fingerprints?: PlanFingerprints;
         };
 
         const client = context.getClient();
         const storeCode = payload.scope?.store_view_code;
 
-        let successCount = 0;
-        const errors: Array<{ sku: string; error: string }> = [];
-
-        for (const change of payload.changes) {
-          try {
-            await client.put(`/V1/products/${encodeURIComponent(change.sku)}`, {
-              product: {
-                sku: change.sku,
-                custom_attributes: [
-                  { attribute_code: 'url_key', value: change.new_url_key },
-                ],
-              },
-            }, storeCode);
-            successCount++;
-          } catch (err) {
-            errors.push({ sku: change.sku, error: err instanceof Error ? err.message : String(err) });
-          }
+        // A URL key edited since prepare would otherwise be replaced by one derived from its old value
+        const drift = await checkPlanDrift(
+          payload.fingerprints,
+          (skus) => fetchProductsBySku(client, skus, storeCode),
+          validated.on_drift,
+        );
+        if (!context.dryRun && !planStore.consume(plan.plan_id, context.sessionId)) {
+          throw new GuardrailError(ErrorCodes.PLAN_NOT_FOUND, 'Plan not found or expired. Prepare a new plan.');
         }
 
+        const changes = payload.changes.filter((change) => !drift.skipped.has(change.sku));
+        const run = await context.runBulk(changes, (change) => change.sku, async (change) => {
+          await client.put(`/V1/products/${encodeURIComponent(change.sku)}`, {
+            product: {
+              sku: change.sku,
+              custom_attributes: [
+                { attribute_code: 'url_key', value: change.new_url_key },
+              ],
+            },
+          }, storeCode);
+        });
+        context.recordAffected({ skus: run.applied });
         return {
-          message: `Updated URL keys for ${successCount}/${payload.changes.length} products.`,
-          success_count: successCount,
-          error_count: errors.length,
-          errors: errors.length > 0 ? errors : undefined,
+          ...bulkCommitResult(run, 'Updated URL keys for', 'products', client.retryCount),
+          drift: drift.report,
         };
       },
     },
@@ -152,81 +169,71 @@ export function createSeoActions(
     // ── Bulk Update Meta ──────────────────────────────────────────────────
     {
       name: 'seo.bulk_update_meta',
+      title: 'Bulk update product meta fields',
       description: 'Bulk update meta fields (title, description, keywords) for products.',
       riskTier: RiskTier.Risk,
       requiresAuth: true,
+      writes: true,
+      inputSchema: SeoBulkUpdateMetaSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
+        const { config, guardrails } = context;
         const validated = SeoBulkUpdateMetaSchema.parse(params);
-        guardrails.requireConfirmation(RiskTier.Risk, params);
 
         const client = context.getClient();
-        const products = await resolveProducts(client, validated.match, validated.scope?.store_view_code);
-        guardrails.enforceBulkSkuCap(products.length);
+        const matches = await resolveProducts(
+          client,
+          validated.match,
+          validated.scope?.store_view_code,
+          config.maxSkusPerBulkCommit,
+        );
+        guardrails.enforceBulkSkuCap(matches.total_count);
+        const products = matches.items;
 
         const storeCode = validated.scope?.store_view_code;
-        let successCount = 0;
-        const errors: Array<{ sku: string; error: string }> = [];
-
-        for (const product of products) {
-          const customAttributes: Array<{ attribute_code: string; value: string }> = [];
-
-          if (validated.meta_updates.meta_title !== undefined) {
-            customAttributes.push({ attribute_code: 'meta_title', value: validated.meta_updates.meta_title });
-          }
-          if (validated.meta_updates.meta_description !== undefined) {
-            customAttributes.push({ attribute_code: 'meta_description', value: validated.meta_updates.meta_description });
-          }
-          if (validated.meta_updates.meta_keyword !== undefined) {
-            customAttributes.push({ attribute_code: 'meta_keyword', value: validated.meta_updates.meta_keyword });
-          }
-
-          try {
-            const sku = String(product['sku']);
-            await client.put(`/V1/products/${encodeURIComponent(sku)}`, {
-              product: { sku, custom_attributes: customAttributes },
-            }, storeCode);
-            successCount++;
-          } catch (err) {
-            errors.push({
-              sku: String(product['sku']),
-              error: err instanceof Error ? err.message : String(err),
-            });
-          }
+        const customAttributes: Array<{ attribute_code: string; value: string }> = [];
+        if (validated.meta_updates.meta_title !== undefined) {
+          customAttributes.push({ attribute_code: 'meta_title', value: validated.meta_updates.meta_title });
+        }
+        if (validated.meta_updates.meta_description !== undefined) {
+          customAttributes.push({ attribute_code: 'meta_description', value: validated.meta_updates.meta_description });
+        }
+        if (validated.meta_updates.meta_keyword !== undefined) {
+          customAttributes.push({ attribute_code: 'meta_keyword', value: validated.meta_updates.meta_keyword });
         }
 
-        return {
-          message: `Updated meta fields for ${successCount}/${products.length} products.`,
-          success_count: successCount,
-          error_count: errors.length,
-          errors: errors.length > 0 ? errors : undefined,
-        };
+        const skus = products.map((product) => String(product['sku']));
+        const run = await context.runBulk(skus, (sku) => sku, async (sku) => {
+          await client.put(`/V1/products/${encodeURIComponent(sku)}`, {
+            product: { sku, custom_attributes: customAttributes },
+          }, storeCode);
+        });
+        context.recordAffected({ skus: run.applied });
+        return bulkCommitResult(run, 'Updated meta fields for', 'products', client.retryCount);
       },
     },
 
     // ── Report Redirect Chains ────────────────────────────────────────────
     {
       name: 'seo.report_redirect_chains',
+      title: 'Report redirect chains',
       description: 'Report on URL redirect chains up to a configurable depth.',
       riskTier: RiskTier.Safe,
       requiresAuth: true,
+      writes: false,
+      inputSchema: SeoRedirectChainsSchema,
       handler: async (params: Record<string, unknown>, context: ActionContext) => {
         const validated = SeoRedirectChainsSchema.parse(params);
         const client = context.getClient();
 
-        // Fetch URL rewrites
-        const searchParams = client.buildSearchParams({
+        // Fetch URL rewrites, up to the configured cap
+        const maxRewrites = context.config.maxRedirectRewritesScanned;
+        const result = await client.searchAll('/V1/url-rewrite', {
           filterGroups: [
             { filters: [{ field: 'redirect_type', value: '0', conditionType: 'neq' }] },
           ],
-          pageSize: 1000,
-        });
+        }, { maxItems: maxRewrites });
 
-        const result = await client.get<{ items: Array<Record<string, unknown>> }>(
-          '/V1/url-rewrite',
-          searchParams,
-        ).catch(() => ({ items: [] as Array<Record<string, unknown>> }));
-
-        const rewrites = result.items || [];
+        const rewrites = result.items;
 
         // Build redirect map
         const redirectMap = new Map<string, string>();
@@ -253,10 +260,15 @@ export function createSeoActions(
         }
 
         return {
-          total_redirects: rewrites.length,
+          total_redirects: result.total_count,
+          redirects_scanned: rewrites.length,
+          truncated: result.truncated,
           chains_found: chains.length,
           chains: chains.slice(0, 50),
           max_depth_checked: validated.max_depth,
+          warnings: result.truncated
+            ? [`Only the first ${rewrites.length} of ${result.total_count} redirects were scanned (maxRedirectRewritesScanned); chains through the rest are not reported.`]
+            : undefined,
         };
       },
     },
@@ -265,9 +277,10 @@ export function createSeoActions(
 
 async function resolveProducts(
   client: MagentoRestClient,
-  match: { sku_list?: string[]; sku_prefix?: string; attribute_filters?: Record<string, unknown>; category_id?: number },
+  match: { sku_list?: string[]; sku_prefix?: string; attribute_filters?: Record<string, AttributeFilter>; category_id?: number },
   storeCode?: string,
-): Promise<Array<Record<string, unknown>>> {
+  maxItems?: number,
+): Promise<MagentoSearchResult<Record<string, unknown>>> {
   const filterGroups: Array<{ filters: Array<{ field: string; value: string; conditionType?: string }> }> = [];
 
   if (match.sku_list && match.sku_list.length > 0) {
@@ -280,12 +293,21 @@ async function resolveProducts(
       filters: [{ field: 'sku', value: `${match.sku_prefix}%`, conditionType: 'like' }],
     });
   }
+  if (match.attribute_filters) {
+    for (const [field, spec] of Object.entries(match.attribute_filters)) {
+      const filter = typeof spec === 'object' ? spec : { value: spec, condition: undefined };
+      filterGroups.push({
+        filters: [{ field, value: String(filter.value), conditionType: filter.condition ?? 'eq' }],
+      });
+    }
+  }
+  if (match.category_id) {
+    filterGroups.push({
+      filters: [{ field: 'category_id', value: String(match.category_id), conditionType: 'eq' }],
+    });
+  }
 
-  const searchParams = client.buildSearchParams({
+  return client.searchAll('/V1/products', {
     filterGroups: filterGroups.length > 0 ? filterGroups : undefined,
-    pageSize: 2000,
-  });
-
-  const result = await client.get<{ items: Array<Record<string, unknown>> }>('/V1/products', searchParams, storeCode);
-  return result.items || [];
+  }, { storeCode, maxItems });
 }
@@ -0,0 +1,214 @@
+/**
+ * Hash chain over the audit trail.
+ *
+ * Every record carries a sequence number, the hash of the record before it
+ * and its own hash: SHA-256 of the record as written, without its hash and
+ * hmac fields. Editing, removing, inserting or reordering a line breaks the
+ * chain from that point. Anyone with file access could still rebuild a
+ * consistent chain, so with an HMAC key configured each hash is also signed
+ * (hmac field), which cannot be recomputed without the key.
+ *
+ * Retention removes the oldest files, so a trail may start past seq 1. Each
+ * removal is recorded in the chain by a checkpoint record naming the seq
+ * and prev_hash the trail now starts with; a trail that starts anywhere
+ * else has lost records.
+ */
+
+import * as crypto from 'crypto';
+
+/** prev_hash of the first record of a chain */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/** Action of the checkpoint record written when retention removes files */
+export const RETENTION_CHECKPOINT_ACTION = 'audit.retention';
+
+// verify reports at most this many issues; the counts cover all of them
+const MAX_REPORTED_ISSUES = 100;
+
+export interface ChainLink {
+  hash: string;
+  hmac?: string;
+}
+
+export interface AuditLine {
+  file: string;
+  /** 1-based line number within the file */
+  line: number;
+  text: string;
+}
+
+export type ChainProblem =
+  | 'unparseable'
+  | 'modified'
+  | 'bad_signature'
+  | 'unsigned'
+  | 'gap'
+  | 'reordered'
+  | 'broken_link'
+  | 'unchained'
+  | 'truncated'
+  | 'missing_start';
+
+export interface ChainIssue {
+  file: string;
+  /** null for issues that concern the trail as a whole */
+  line: number | null;
+  seq: number | null;
+  problem: ChainProblem;
+  detail: string;
+}
+
+export interface ChainReport {
+  valid: boolean;
+  signed: boolean;
+  files: number;
+  records: number;
+  /** Records written before the chain was introduced, ahead of its first record */
+  legacy_records: number;
+  first_seq: number | null;
+  last_seq: number | null;
+  issue_count: number;
+  issues: ChainIssue[];
+}
+
+/**
+ * Hash (and sign, with a key) a record body that already holds seq and prev_hash.
+ */
+export function linkRecord(body: Record<string, unknown>, hmacKey: string | null): ChainLink {
+  const hash = sha256(JSON.stringify(body));
+  return hmacKey ? { hash, hmac: sign(hash, hmacKey) } : { hash };
+}
+
+/**
+ * Walk audit lines in write order and report every break in the chain.
+ * `expected`, when known (the seq the running logger wrote last), also
+ * catches records cut off the end, which the chain alone cannot.
+ */
+export async function verifyChain(
+  lines: AsyncIterable<AuditLine>,
+  hmacKey: string | null,
+  expected: { file: string; lastSeq: number } | null = null,
+): Promise<ChainReport> {
+  const issues: ChainIssue[] = [];
+  const files = new Set<string>();
+  let records = 0;
+  let legacy = 0;
+  let first: { at: AuditLine; seq: number; prevHash: unknown } | null = null;
+  let firstSeq: number | null = null;
+  let lastSeq: number | null = null;
+  let lastHash: string | null = null;
+  let checkpoint: { seq: number; firstSeq: unknown; firstPrevHash: unknown } | null = null;
+
+  const report = (at: AuditLine, seq: number | null, problem: ChainProblem, detail: string): void => {
+    issues.push({ file: at.file, line: at.line, seq, problem, detail });
+  };
+
+  for await (const at of lines) {
+    files.add(at.file);
+    records++;
+
+    let record: Record<string, unknown>;
+    try {
+      record = JSON.parse(at.text) as Record<string, unknown>;
+    } catch {
+      report(at, null, 'unparseable', 'Line is not valid JSON');
+      continue;
+    }
+
+    const { hash, hmac, ...body } = record;
+    const seq = typeof body['seq'] === 'number' ? body['seq'] : null;
+    if (seq === null || typeof hash !== 'string') {
+      if (firstSeq === null) {
+        legacy++;
+      } else {
+        report(at, null, 'unchained', 'Record without seq/hash inside the chain (inserted line?)');
+      }
+      continue;
+    }
+
+    if (sha256(JSON.stringify(body)) !== hash) {
+      report(at, seq, 'modified', 'Content does not match its hash');
+    }
+    if (hmacKey) {
+      if (typeof hmac !== 'string') {
+        report(at, seq, 'unsigned', 'Record has no hmac although a signing key is configured');
+      } else if (!timingSafeEqualHex(sign(hash, hmacKey), hmac)) {
+        report(at, seq, 'bad_signature', 'hmac does not match (modified, or signed with another key)');
+      }
+    }
+
+    if (lastSeq === null) {
+      firstSeq = seq;
+      first = { at, seq, prevHash: body['prev_hash'] };
+      // A chain starting past seq 1 is checked against the last retention checkpoint below
+      if (seq === 1 && body['prev_hash'] !== GENESIS_HASH) {
+        report(at, seq, 'broken_link', 'First record of the chain does not link to the genesis hash');
+      }
+    } else if (seq <= lastSeq) {
+      report(at, seq, 'reordered', `seq ${seq} follows seq ${lastSeq}`);
+      // Keep checking the following records against the chain position reached so far
+      continue;
+    } else if (seq > lastSeq + 1) {
+      report(at, seq, 'gap', `seq jumps from ${lastSeq} to ${seq}: ${seq - lastSeq - 1} record(s) missing`);
+    } else if (body['prev_hash'] !== lastHash) {
+      report(at, seq, 'broken_link', `prev_hash does not match the hash of seq ${lastSeq} (that record was replaced?)`);
+    }
+
+    if (body['action'] === RETENTION_CHECKPOINT_ACTION) {
+      const params = (body['params'] ?? {}) as Record<string, unknown>;
+      checkpoint = { seq, firstSeq: params['first_seq'], firstPrevHash: params['first_prev_hash'] };
+    }
+
+    lastSeq = seq;
+    lastHash = hash;
+  }
+
+  if (first && first.seq > 1) {
+    if (!checkpoint) {
+      report(first.at, first.seq, 'missing_start', `Trail starts at seq ${first.seq}, but no retention checkpoint records the removal of the earlier records`);
+    } else if (checkpoint.firstSeq !== first.seq || checkpoint.firstPrevHash !== first.prevHash) {
+      report(
+        first.at,
+        first.seq,
+        'missing_start',
+        `Trail starts at seq ${first.seq}, but the retention checkpoint at seq ${checkpoint.seq} says it starts at seq ${String(checkpoint.firstSeq)}`,
+      );
+    }
+  }
+
+  if (expected && expected.lastSeq > (lastSeq ?? 0)) {
+    issues.push({
+      file: expected.file,
+      line: null,
+      seq: lastSeq,
+      problem: 'truncated',
+      detail: `Trail ends at seq ${lastSeq ?? 'none'} but seq ${expected.lastSeq} was written: the last records were removed`,
+    });
+  }
+
+  return {
+    valid: issues.length === 0,
+    signed: hmacKey !== null,
+    files: files.size,
+    records,
+    legacy_records: legacy,
+    first_seq: firstSeq,
+    last_seq: lastSeq,
+    issue_count: issues.length,
+    issues: issues.slice(0, MAX_REPORTED_ISSUES),
+  };
+}
+
+function sha256(data: string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function sign(hash: string, key: string): string {
+  return crypto.createHmac('sha256', key).update(hash).digest('hex');
+}
+
+function timingSafeEqualHex(a: string, b: string): boolean {
+  const bufA = Buffer.from(a, 'utf-8');
+  const bufB = Buffer.from(b, 'utf-8');
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
@@ -1,21 +1,122 @@
 /**
  * Audit logger — writes JSONL audit trail for all MCP actions.
+ *
+ * The active file (e.g. audit.jsonl) is rotated when it reaches the size
+ * limit or a new UTC day starts: it is renamed to
+ * audit.<rotation time>.jsonl and then gzipped in the background to
+ * audit.<rotation time>.jsonl.gz. Rotated files older than the retention
+ * period are deleted, and a checkpoint record naming the new start of the
+ * trail is written so audit.verify can tell retention from tampering.
+ *
+ * Records are hash-chained across rotations (see auditChain.ts).
+ *
+ * Files are never loaded whole: plain files are read in chunks and gzipped
+ * ones are streamed through a decompressor, so reading the trail takes the
+ * same memory however large the files grow.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
+import * as zlib from 'zlib';
+import * as readline from 'readline';
+import { pipeline } from 'stream/promises';
 import { AuditRecord } from '../protocol/types';
+import {
+  AuditLine,
+  ChainReport,
+  GENESIS_HASH,
+  RETENTION_CHECKPOINT_ACTION,
+  linkRecord,
+  verifyChain,
+} from './auditChain';
+
+/** Bytes read per step when scanning a file */
+const TAIL_CHUNK_BYTES = 64 * 1024;
+
+// Rotated files being gzipped by this process, so a file is never compressed twice at once
+const compressing = new Set<string>();
+
+export interface AuditRotation {
+  /** Rotate once the active file would grow past this many bytes (0 = no size limit) */
+  maxBytes: number;
+  /** Rotate when the first record of a new UTC day is written */
+  daily: boolean;
+  /** Delete rotated files older than this many days (0 = keep forever) */
+  retentionDays: number;
+}
+
+export interface RecentAuditRecords {
+  /** Oldest first */
+  records: AuditRecord[];
+  /** Lines skipped because they are not valid JSON */
+  unreadable: number;
+}
+
+/** An audit file opened for reading; a plain rotated file may have turned into its .gz */
+interface OpenAuditFile {
+  fd: number;
+  gzip: boolean;
+}
 
 export class AuditLogger {
   private logPath: string;
+  private rotatedPattern: RegExp;
+  private size = 0;
+  /** UTC day (YYYY-MM-DD) of the last write to the active file */
+  private day: string | null = null;
+  private lastSeq = 0;
+  private lastHash = GENESIS_HASH;
+  /** Retention passes run one at a time, so each checkpoint matches the trail that pass left */
+  private retention: Promise<void> = Promise.resolve();
+
+  /**
+   * Open the audit trail, continuing its chain after the last record
+   * written by a previous run.
+   */
+  static async open(
+    logPath: string,
+    rotation?: AuditRotation,
+    hmacKey: string | null = null,
+  ): Promise<AuditLogger> {
+    const logger = new AuditLogger(logPath, rotation, hmacKey);
+    await logger.resumeChain();
+    await logger.applyRetention();
+    return logger;
+  }
 
-  constructor(logPath: string) {
+  private constructor(
+    logPath: string,
+    private rotation: AuditRotation = { maxBytes: 0, daily: false, retentionDays: 0 },
+    private hmacKey: string | null = null,
+  ) {
     this.logPath = path.resolve(logPath);
     // Ensure directory exists
     const dir = path.dirname(this.logPath);
     if (!fs.existsSync(dir)) {
       fs.mkdirSync(dir, { recursive: true });
     }
+
+    const ext = path.extname(this.logPath);
+    const base = path.basename(this.logPath, ext);
+    this.rotatedPattern = new RegExp(
+      `^${escapeRegExp(base)}\\.(\\d{4}-\\d{2}-\\d{2}T[\\d-]+Z)(?:-(\\d+))?${escapeRegExp(ext)}(\\.gz)?$`,
+    );
+
+    if (fs.existsSync(this.logPath)) {
+      const stat = fs.statSync(this.logPath);
+      this.size = stat.size;
+      this.day = stat.mtime.toISOString().slice(0, 10);
+      // A line cut off by a crash must not run into the next record
+      if (this.size > 0 && lastByte(this.logPath) !== 0x0a) {
+        fs.appendFileSync(this.logPath, '\n', 'utf-8');
+        this.size++;
+      }
+    }
+
+    // Files rotated by a previous run that stopped before compressing them
+    for (const file of this.rotatedFiles()) {
+      if (!file.endsWith('.gz')) this.compress(file);
+    }
   }
 
   /**
@@ -28,21 +129,358 @@ export class AuditLogger {
       const p = { ...sanitized.params };
       delete p['password'];
       delete p['token'];
+      delete p['oauth_consumer_secret'];
+      delete p['oauth_token_secret'];
+      delete p['integration_token'];
       sanitized.params = p;
     }
 
-    const line = JSON.stringify(sanitized) + '\n';
+    const body = { ...sanitized, seq: this.lastSeq + 1, prev_hash: this.lastHash };
+    const link = linkRecord(body, this.hmacKey);
+    const line = JSON.stringify({ ...body, ...link }) + '\n';
+    const bytes = Buffer.byteLength(line, 'utf-8');
+    const today = new Date().toISOString().slice(0, 10);
+
+    if (this.size > 0) {
+      const newDay = this.rotation.daily && this.day !== null && this.day !== today;
+      const full = this.rotation.maxBytes > 0 && this.size + bytes > this.rotation.maxBytes;
+      if (newDay || full) this.rotate();
+    }
+
     fs.appendFileSync(this.logPath, line, 'utf-8');
+    this.size += bytes;
+    this.day = today;
+    this.lastSeq = body.seq;
+    this.lastHash = link.hash;
+  }
+
+  /**
+   * Read the most recent `count` records that pass `filter`, newest file
+   * first, continuing into older files only while too few records were
+   * found. Plain files are read backwards from their end; a gzipped file
+   * can only be streamed from its start, keeping its last matches. Lines
+   * that are not valid JSON are skipped and counted.
+   */
+  async readRecent(count: number = 50, filter: (record: AuditRecord) => boolean = () => true): Promise<RecentAuditRecords> {
+    const newestFirst: AuditRecord[] = [];
+    let unreadable = 0;
+    const parse = (line: string): AuditRecord | undefined => {
+      try {
+        return JSON.parse(line) as AuditRecord;
+      } catch {
+        unreadable++;
+        return undefined;
+      }
+    };
+
+    for (const file of this.files().reverse()) {
+      const needed = count - newestFirst.length;
+      if (needed <= 0) break;
+      const opened = openAuditFile(file);
+      if (!opened) continue;
+
+      if (!opened.gzip) {
+        for (const line of readLinesBackward(opened.fd)) {
+          const record = parse(line);
+          if (!record || !filter(record)) continue;
+          newestFirst.push(record);
+          if (newestFirst.length >= count) break;
+        }
+        continue;
+      }
+
+      const tail: AuditRecord[] = [];
+      for await (const line of readLinesForward(opened)) {
+        if (line.trim() === '') continue;
+        const record = parse(line);
+        if (!record || !filter(record)) continue;
+        tail.push(record);
+        if (tail.length > needed) tail.shift();
+      }
+      newestFirst.push(...tail.reverse());
+    }
+    return { records: newestFirst.reverse(), unreadable };
+  }
+
+  /**
+   * Every line of the audit trail in write order, one file at a time.
+   * With `since` (epoch ms), rotated files that were closed before it are
+   * skipped: none of their records can be that recent.
+   */
+  async *lines(since?: number): AsyncGenerator<AuditLine> {
+    for (const file of this.files()) {
+      if (since !== undefined && file !== this.logPath && this.rotatedAt(file) < since) continue;
+      const opened = openAuditFile(file);
+      if (!opened) continue;
+      let line = 0;
+      for await (const text of readLinesForward(opened)) {
+        line++;
+        if (text.trim() !== '') yield { file, line, text };
+      }
+    }
+  }
+
+  /**
+   * Check the hash chain (and signatures, with an HMAC key) across all files.
+   */
+  async verify(): Promise<ChainReport> {
+    return verifyChain(this.lines(), this.hmacKey, { file: this.logPath, lastSeq: this.lastSeq });
+  }
+
+  /**
+   * Every audit file, oldest first: rotated files, then the active one.
+   */
+  files(): string[] {
+    const files = this.rotatedFiles();
+    if (fs.existsSync(this.logPath)) files.push(this.logPath);
+    return files;
+  }
+
+  /** Rotated files, oldest first; a file being compressed is listed once */
+  private rotatedFiles(): string[] {
+    const dir = path.dirname(this.logPath);
+    const names = new Set(fs.readdirSync(dir).filter((name) => this.rotatedPattern.test(name)));
+    // Ordered by rotation time, then by the counter added when two rotations share a timestamp
+    const order = (name: string): [string, number] => {
+      const match = this.rotatedPattern.exec(name);
+      return [match?.[1] ?? '', Number(match?.[2] ?? 0)];
+    };
+    return [...names]
+      .filter((name) => !(name.endsWith('.gz') && names.has(name.slice(0, -'.gz'.length))))
+      .sort((a, b) => {
+        const [stampA, nA] = order(a);
+        const [stampB, nB] = order(b);
+        return stampA < stampB ? -1 : stampA > stampB ? 1 : nA - nB;
+      })
+      .map((name) => path.join(dir, name));
+  }
+
+  /** When a rotated file was closed, from the timestamp in its name */
+  private rotatedAt(file: string): number {
+    const stamp = this.rotatedPattern.exec(path.basename(file))?.[1] ?? '';
+    // 2026-03-01T12-30-05-123Z → 2026-03-01T12:30:05.123Z
+    const [date, time = ''] = stamp.split('T');
+    const [h, m, sec, ms] = time.replace(/Z$/, '').split('-');
+    const parsed = Date.parse(`${date}T${h}:${m}:${sec}.${ms}Z`);
+    // An unparseable name is never skipped
+    return Number.isNaN(parsed) ? Infinity : parsed;
+  }
+
+  /**
+   * Continue the chain after the last readable record written by a previous
+   * run. Unreadable lines after it (a write torn by a crash) are skipped and
+   * noted in a marker record.
+   */
+  private async resumeChain(): Promise<void> {
+    let recent: RecentAuditRecords;
+    try {
+      recent = await this.readRecent(1);
+    } catch {
+      // Unreadable file: start a new chain; audit.verify reports the break
+      return;
+    }
+    const last = recent.records[0];
+    if (last && typeof last.seq === 'number' && typeof last.hash === 'string') {
+      this.lastSeq = last.seq;
+      this.lastHash = last.hash;
+    }
+    if (recent.unreadable > 0) {
+      this.log(systemRecord(
+        'audit.truncation',
+        { unreadable_lines: recent.unreadable, resumed_after_seq: this.lastSeq > 0 ? this.lastSeq : null },
+        `${recent.unreadable} unreadable line(s) at the end of the trail were skipped; the chain continues after seq ${this.lastSeq}`,
+      ));
+    }
+  }
+
+  /** The first chained record of the trail, if any */
+  private async firstChainedRecord(): Promise<AuditRecord | undefined> {
+    for await (const line of this.lines()) {
+      try {
+        const record = JSON.parse(line.text) as AuditRecord;
+        if (typeof record.seq === 'number') return record;
+      } catch {
+        // Not a record; keep looking
+      }
+    }
+    return undefined;
+  }
+
+  private rotate(): void {
+    const ext = path.extname(this.logPath);
+    const base = path.join(path.dirname(this.logPath), path.basename(this.logPath, ext));
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+
+    let target = `${base}.${stamp}${ext}`;
+    for (let n = 1; fs.existsSync(target) || fs.existsSync(`${target}.gz`); n++) {
+      target = `${base}.${stamp}-${n}${ext}`;
+    }
+
+    fs.renameSync(this.logPath, target);
+    this.size = 0;
+    this.compress(target);
+    void this.applyRetention();
+  }
+
+  /**
+   * Gzip a rotated file in the background. Until the compressed file is
+   * complete the plain one stays in place, so a crash never loses records.
+   */
+  private compress(file: string): void {
+    if (compressing.has(file)) return;
+    compressing.add(file);
+    const gzPath = `${file}.gz`;
+    const tmpPath = `${gzPath}.tmp`;
+    pipeline(fs.createReadStream(file), zlib.createGzip(), fs.createWriteStream(tmpPath))
+      .then(() => {
+        fs.renameSync(tmpPath, gzPath);
+        fs.unlinkSync(file);
+      })
+      .catch((err: Error) => {
+        process.stderr.write(`Audit log: could not compress ${file}, leaving it uncompressed: ${err.message}\n`);
+      })
+      .finally(() => compressing.delete(file));
+  }
+
+  private applyRetention(): Promise<void> {
+    this.retention = this.retention
+      .then(() => this.removeExpiredFiles())
+      .catch((err: Error) => {
+        process.stderr.write(`Audit log: retention failed: ${err.message}\n`);
+      });
+    return this.retention;
   }
 
   /**
-   * Read recent audit records.
+   * Delete rotated files past the retention period, then write a checkpoint
+   * record naming the seq and prev_hash the trail now starts with. It is
+   * chained and signed like any record, so it cannot be forged to cover
+   * records removed by hand.
    */
-  readRecent(count: number = 50): AuditRecord[] {
-    if (!fs.existsSync(this.logPath)) return [];
-    const content = fs.readFileSync(this.logPath, 'utf-8');
-    const lines = content.trim().split('\n').filter(Boolean);
-    const recent = lines.slice(-count);
-    return recent.map((line) => JSON.parse(line) as AuditRecord);
+  private async removeExpiredFiles(): Promise<void> {
+    if (this.rotation.retentionDays <= 0) return;
+    const cutoff = Date.now() - this.rotation.retentionDays * 86_400_000;
+    const removed: string[] = [];
+    for (const file of this.rotatedFiles()) {
+      try {
+        if (fs.statSync(file).mtimeMs < cutoff) {
+          fs.unlinkSync(file);
+          removed.push(path.basename(file));
+        }
+      } catch {
+        // Removed concurrently (e.g. by compression finishing); nothing to do
+      }
+    }
+    if (removed.length === 0) return;
+
+    // With every earlier record gone, the checkpoint itself starts the trail
+    const first = await this.firstChainedRecord();
+    const firstSeq = first?.seq ?? this.lastSeq + 1;
+    this.log(systemRecord(
+      RETENTION_CHECKPOINT_ACTION,
+      { removed_files: removed, first_seq: firstSeq, first_prev_hash: first?.prev_hash ?? this.lastHash },
+      `Retention removed ${removed.length} file(s) older than ${this.rotation.retentionDays} day(s); the trail now starts at seq ${firstSeq}`,
+    ));
   }
 }
+
+/**
+ * Open an audit file for reading. A plain rotated file that finished
+ * compressing after it was listed is opened as its .gz instead; null if
+ * neither exists any more.
+ */
+function openAuditFile(filePath: string): OpenAuditFile | null {
+  const candidates = filePath.endsWith('.gz') ? [filePath] : [filePath, `${filePath}.gz`];
+  for (const candidate of candidates) {
+    try {
+      return { fd: fs.openSync(candidate, 'r'), gzip: candidate.endsWith('.gz') };
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    }
+  }
+  return null;
+}
+
+/**
+ * Non-empty lines of a plain audit file, last line first, read backwards in
+ * chunks so only as much of the file is loaded as the caller consumes.
+ * Closes the file when done.
+ */
+function* readLinesBackward(fd: number): Generator<string> {
+  try {
+    let position = fs.fstatSync(fd).size;
+    let pending = Buffer.alloc(0);
+    while (position > 0) {
+      const length = Math.min(TAIL_CHUNK_BYTES, position);
+      position -= length;
+      const chunk = Buffer.alloc(length);
+      fs.readSync(fd, chunk, 0, length, position);
+      pending = Buffer.concat([chunk, pending]);
+      // Everything after the last newline in `pending` is a complete line
+      let newline: number;
+      while ((newline = pending.lastIndexOf(0x0a)) !== -1) {
+        const line = pending.subarray(newline + 1).toString('utf-8');
+        pending = pending.subarray(0, newline);
+        if (line.trim() !== '') yield line;
+      }
+    }
+    const first = pending.toString('utf-8');
+    if (first.trim() !== '') yield first;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Lines of an audit file from the start, streamed (and decompressed for a
+ * .gz) so memory stays bounded by the longest line. Closes the file when
+ * done.
+ */
+async function* readLinesForward(file: OpenAuditFile): AsyncGenerator<string> {
+  const source = fs.createReadStream('', { fd: file.fd, highWaterMark: TAIL_CHUNK_BYTES });
+  let input: NodeJS.ReadableStream = source;
+  if (file.gzip) {
+    const gunzip = zlib.createGunzip();
+    source.on('error', (err) => gunzip.destroy(err));
+    input = source.pipe(gunzip);
+  }
+  const reader = readline.createInterface({ input, crlfDelay: Infinity });
+  try {
+    yield* reader;
+  } finally {
+    reader.close();
+    source.destroy();
+  }
+}
+
+/** A record written by the logger itself rather than for a tool call */
+function systemRecord(action: string, params: Record<string, unknown>, summary: string): AuditRecord {
+  return {
+    timestamp: new Date().toISOString(),
+    username: null,
+    profile: null,
+    environment: '',
+    action,
+    scope: null,
+    params,
+    result_summary: summary,
+    plan_id: null,
+    reason: null,
+    status: 'success',
+  };
+}
+
+function lastByte(filePath: string): number {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const byte = Buffer.alloc(1);
+    fs.readSync(fd, byte, 0, 1, fs.fstatSync(fd).size - 1);
+    return byte[0];
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,146 @@
+/**
+ * Filtering and export of audit records for audit.search.
+ *
+ * Records written before status and affected targets were recorded are
+ * still matched: their status is derived from the result summary and their
+ * targets from the call's parameters.
+ */
+
+import { AffectedTargets, AuditRecord, AuditStatus } from '../protocol/types';
+import { matchesAnyPattern } from '../validation/guardrails';
+
+export interface AuditQuery {
+  /** Epoch milliseconds, inclusive */
+  from?: number;
+  /** Epoch milliseconds, exclusive */
+  to?: number;
+  username?: string;
+  /** Exact action name or a "namespace.*" pattern */
+  action?: string;
+  plan_id?: string;
+  sku?: string;
+  page_id?: number;
+  block_id?: number;
+  rule_id?: number;
+  status?: AuditStatus;
+}
+
+/**
+ * Targets named directly by a call's parameters (sku, rule_id, page_id, block_id).
+ */
+export function targetsFromParams(params: Record<string, unknown>): AffectedTargets {
+  const targets: AffectedTargets = {};
+  if (typeof params['sku'] === 'string') targets.skus = [params['sku']];
+  if (typeof params['rule_id'] === 'number') targets.rule_ids = [params['rule_id']];
+  if (typeof params['page_id'] === 'number') targets.page_ids = [params['page_id']];
+  if (typeof params['block_id'] === 'number') targets.block_ids = [params['block_id']];
+  return targets;
+}
+
+/**
+ * Add `extra` into `targets`, keeping each list free of duplicates.
+ */
+export function mergeTargets(targets: AffectedTargets, extra: AffectedTargets): void {
+  for (const key of ['skus', 'page_ids', 'block_ids', 'rule_ids'] as const) {
+    const values = extra[key];
+    if (!values || values.length === 0) continue;
+    const merged = new Set<string | number>(targets[key] ?? []);
+    for (const value of values) merged.add(value);
+    (targets as Record<string, unknown>)[key] = [...merged];
+  }
+}
+
+export function hasTargets(targets: AffectedTargets): boolean {
+  return Object.values(targets).some((values) => Array.isArray(values) && values.length > 0);
+}
+
+/**
+ * Which records a user may read: audit admins see everyone's, other users
+ * only their own. Only a user whose name Magento verified can be an audit
+ * admin.
+ */
+export function visibleTo(
+  username: string | null,
+  identityVerified: boolean,
+  adminUsers: string[],
+): (record: AuditRecord) => boolean {
+  if (username !== null && identityVerified && adminUsers.includes(username)) return () => true;
+  return (record) => username !== null && record.username === username;
+}
+
+export function statusOf(record: AuditRecord): AuditStatus {
+  if (record.status) return record.status;
+  const summary = record.result_summary ?? '';
+  if (summary.startsWith('ERROR:')) return 'error';
+  if (summary.startsWith('Dry run:')) return 'dry_run';
+  return 'success';
+}
+
+/** Recorded targets plus those named by the parameters (all that older records have) */
+function targetsOf(record: AuditRecord): AffectedTargets {
+  const targets: AffectedTargets = {};
+  mergeTargets(targets, record.affected ?? {});
+  mergeTargets(targets, targetsFromParams(record.params ?? {}));
+  return targets;
+}
+
+export function matchesQuery(record: AuditRecord, query: AuditQuery): boolean {
+  if (query.from !== undefined || query.to !== undefined) {
+    const time = Date.parse(record.timestamp);
+    if (Number.isNaN(time)) return false;
+    if (query.from !== undefined && time < query.from) return false;
+    if (query.to !== undefined && time >= query.to) return false;
+  }
+  if (query.username !== undefined && record.username !== query.username) return false;
+  if (query.action !== undefined && !matchesAnyPattern(record.action, [query.action])) return false;
+  if (query.plan_id !== undefined && record.plan_id !== query.plan_id) return false;
+  if (query.status !== undefined && statusOf(record) !== query.status) return false;
+
+  if (query.sku !== undefined || query.page_id !== undefined || query.block_id !== undefined || query.rule_id !== undefined) {
+    const targets = targetsOf(record);
+    if (query.sku !== undefined && !targets.skus?.includes(query.sku)) return false;
+    if (query.page_id !== undefined && !targets.page_ids?.includes(query.page_id)) return false;
+    if (query.block_id !== undefined && !targets.block_ids?.includes(query.block_id)) return false;
+    if (query.rule_id !== undefined && !targets.rule_ids?.includes(query.rule_id)) return false;
+  }
+  return true;
+}
+
+const CSV_COLUMNS = [
+  'timestamp', 'seq', 'username', 'profile', 'environment', 'action', 'status',
+  'plan_id', 'reason', 'skus', 'page_ids', 'block_ids', 'rule_ids', 'result_summary', 'params',
+];
+
+/**
+ * One CSV row per record with a header line; lists are joined with ";" and
+ * params are written as JSON. Fields a spreadsheet would run as a formula
+ * are prefixed with a quote.
+ */
+export function auditRecordsToCsv(records: AuditRecord[]): string {
+  const rows = records.map((record) => {
+    const targets = targetsOf(record);
+    return [
+      record.timestamp,
+      record.seq ?? '',
+      record.username ?? '',
+      record.profile ?? '',
+      record.environment ?? '',
+      record.action,
+      statusOf(record),
+      record.plan_id ?? '',
+      record.reason ?? '',
+      (targets.skus ?? []).join(';'),
+      (targets.page_ids ?? []).join(';'),
+      (targets.block_ids ?? []).join(';'),
+      (targets.rule_ids ?? []).join(';'),
+      record.result_summary,
+      JSON.stringify(record.params ?? {}),
+    ].map((value) => csvField(String(value))).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+function csvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
@@ -0,0 +1,194 @@
+/**
+ * Bulk executor shared by every commit action.
+ *
+ * Runs per-item write tasks with bounded concurrency and a per-instance
+ * request rate, so several sessions committing against the same Magento
+ * instance share one budget. When the instance starts answering 429 or 5xx,
+ * concurrency for that instance is halved and new work pauses briefly; it
+ * recovers one slot at a time as items succeed again.
+ */
+
+export interface BulkExecutorOptions {
+  /** Most items in flight per Magento instance */
+  concurrency: number;
+  /** Most item starts per second per Magento instance (0 = unlimited) */
+  requestsPerSecond: number;
+}
+
+/** Outcome of one bulk run, in the same shape for every commit action */
+export interface BulkRunResult {
+  total: number;
+  processed: number;
+  applied: string[];
+  errors: Array<{ item: string; error: string }>;
+  /** Items never started because the run was cancelled */
+  not_attempted: string[];
+  cancelled: boolean;
+}
+
+export interface BulkRunHooks {
+  signal: AbortSignal;
+  onProgress: (processed: number, total: number, errorCount: number) => Promise<void>;
+}
+
+interface InstanceState {
+  active: number;
+  limit: number;
+  successesSinceThrottle: number;
+  nextStartAt: number;
+  pausedUntil: number;
+}
+
+// Pause for new work after the instance signals overload
+const THROTTLE_PAUSE_MS = 2000;
+// How often a waiting worker re-checks for a free slot
+const SLOT_POLL_MS = 25;
+
+export class BulkExecutor {
+  private instances = new Map<string, InstanceState>();
+
+  constructor(private options: BulkExecutorOptions) {}
+
+  /**
+   * Run a task for every item against the given instance (its base URL).
+   * Task failures are collected per item and progress reporting failures are
+   * ignored; the run itself only stops early when the signal is aborted,
+   * leaving unstarted items untouched.
+   */
+  async run<T>(
+    instanceKey: string,
+    items: T[],
+    keyOf: (item: T) => string,
+    task: (item: T) => Promise<void>,
+    hooks: BulkRunHooks,
+  ): Promise<BulkRunResult> {
+    const state = this.stateFor(instanceKey);
+    const total = items.length;
+    const applied: string[] = [];
+    const errors: BulkRunResult['errors'] = [];
+    const started = new Array<boolean>(total).fill(false);
+    let nextIndex = 0;
+    let processed = 0;
+
+    const worker = async (): Promise<void> => {
+      while (nextIndex < total) {
+        if (hooks.signal.aborted) return;
+        await this.acquire(state, hooks.signal);
+        if (hooks.signal.aborted || nextIndex >= total) {
+          state.active--;
+          return;
+        }
+
+        const index = nextIndex++;
+        started[index] = true;
+        const key = keyOf(items[index]);
+        try {
+          await task(items[index]);
+          applied.push(key);
+          this.recordSuccess(state);
+        } catch (err) {
+          errors.push({ item: key, error: err instanceof Error ? err.message : String(err) });
+        } finally {
+          state.active--;
+        }
+        processed++;
+        try {
+          await hooks.onProgress(processed, total, errors.length);
+        } catch {
+          // Progress is advisory (the client may have gone away); keep writing
+        }
+      }
+    };
+
+    const workerCount = Math.max(1, Math.min(this.options.concurrency, total));
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+    const notAttempted = items.filter((_, i) => !started[i]).map(keyOf);
+    return {
+      total,
+      processed,
+      applied,
+      errors,
+      not_attempted: notAttempted,
+      cancelled: notAttempted.length > 0,
+    };
+  }
+
+  /**
+   * Signal that an instance answered 429 or 5xx: halve its concurrency
+   * and pause new work for a moment.
+   */
+  throttle(instanceKey: string): void {
+    const state = this.stateFor(instanceKey);
+    state.limit = Math.max(1, Math.floor(state.limit / 2));
+    state.successesSinceThrottle = 0;
+    state.pausedUntil = Date.now() + THROTTLE_PAUSE_MS;
+  }
+
+  // ── Private ─────────────────────────────────────────────────────────────
+
+  private stateFor(instanceKey: string): InstanceState {
+    let state = this.instances.get(instanceKey);
+    if (!state) {
+      state = {
+        active: 0,
+        limit: Math.max(1, this.options.concurrency),
+        successesSinceThrottle: 0,
+        nextStartAt: 0,
+        pausedUntil: 0,
+      };
+      this.instances.set(instanceKey, state);
+    }
+    return state;
+  }
+
+  private async acquire(state: InstanceState, signal: AbortSignal): Promise<void> {
+    const minIntervalMs = this.options.requestsPerSecond > 0 ? 1000 / this.options.requestsPerSecond : 0;
+    for (;;) {
+      const now = Date.now();
+      const wait = Math.max(state.pausedUntil - now, state.nextStartAt - now);
+      if (signal.aborted || (state.active < state.limit && wait <= 0)) {
+        state.active++;
+        state.nextStartAt = now + minIntervalMs;
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, wait > 0 ? wait : SLOT_POLL_MS));
+    }
+  }
+
+  /** Additive recovery: one more slot after `limit` consecutive successes */
+  private recordSuccess(state: InstanceState): void {
+    if (state.limit >= this.options.concurrency) return;
+    state.successesSinceThrottle++;
+    if (state.successesSinceThrottle >= state.limit) {
+      state.limit++;
+      state.successesSinceThrottle = 0;
+    }
+  }
+}
+
+/**
+ * Build the commit response for a bulk run, e.g.
+ * "Updated 498/500 products. 2 errors."
+ */
+export function bulkCommitResult(
+  run: BulkRunResult,
+  verb: string,
+  noun: string,
+  retryCount: number,
+): Record<string, unknown> {
+  const message = run.cancelled
+    ? `Cancelled after ${run.processed}/${run.total} ${noun}. ${verb} ${run.applied.length}, ${run.errors.length} errors, ${run.not_attempted.length} not attempted.`
+    : `${verb} ${run.applied.length}/${run.total} ${noun}. ${run.errors.length} errors.`;
+
+  return {
+    message,
+    success_count: run.applied.length,
+    error_count: run.errors.length,
+    retry_count: retryCount,
+    errors: run.errors.length > 0 ? run.errors : undefined,
+    cancelled: run.cancelled || undefined,
+    applied: run.cancelled ? run.applied : undefined,
+    not_applied: run.cancelled ? run.not_attempted : undefined,
+  };
+}
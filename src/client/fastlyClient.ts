@@ -3,17 +3,32 @@
  * Uses the Fastly purge API.
  */
 
+import { IntendedRequest } from './magentoRest';
+import { httpFetch } from './httpFixtures';
+
 export class FastlyClient {
+  private dryRunLog: IntendedRequest[] | null = null;
+
   constructor(
     private serviceId: string,
     private apiToken: string,
   ) {}
 
+  /**
+   * Record purge requests into the given list instead of sending them.
+   */
+  setDryRun(log: IntendedRequest[]): void {
+    this.dryRunLog = log;
+  }
+
   /**
    * Purge a single URL from Fastly cache.
    */
   async purgeUrl(url: string): Promise<FastlyPurgeResult> {
-    const response = await fetch(url, {
+    if (this.dryRunLog) {
+      return this.recordIntended({ method: 'PURGE', endpoint: url });
+    }
+    const response = await httpFetch(url, {
       method: 'PURGE',
       headers: {
         'Fastly-Key': this.apiToken,
@@ -32,7 +47,10 @@ export class FastlyClient {
    */
   async purgeSurrogateKey(key: string): Promise<FastlyPurgeResult> {
     const url = `https://api.fastly.com/service/${this.serviceId}/purge/${key}`;
-    const response = await fetch(url, {
+    if (this.dryRunLog) {
+      return this.recordIntended({ method: 'POST', endpoint: url });
+    }
+    const response = await httpFetch(url, {
       method: 'POST',
       headers: {
         'Fastly-Key': this.apiToken,
@@ -52,7 +70,10 @@ export class FastlyClient {
    */
   async purgeSurrogateKeys(keys: string[]): Promise<FastlyPurgeResult> {
     const url = `https://api.fastly.com/service/${this.serviceId}/purge`;
-    const response = await fetch(url, {
+    if (this.dryRunLog) {
+      return this.recordIntended({ method: 'POST', endpoint: url, body: { surrogate_keys: keys } });
+    }
+    const response = await httpFetch(url, {
       method: 'POST',
       headers: {
         'Fastly-Key': this.apiToken,
@@ -67,10 +88,17 @@ export class FastlyClient {
       ok: response.ok,
     };
   }
+
+  private recordIntended(request: IntendedRequest): FastlyPurgeResult {
+    this.dryRunLog!.push(request);
+    return { status: 0, ok: true, dry_run: true };
+  }
 }
 
 export interface FastlyPurgeResult {
   status: number;
   id?: string;
   ok: boolean;
+  /** Set when the purge was recorded, not sent */
+  dry_run?: boolean;
 }
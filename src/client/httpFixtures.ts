@@ -0,0 +1,177 @@
+/**
+ * Record/replay HTTP fixtures for MagentoRestClient and FastlyClient.
+ *
+ * - record: requests go out as usual; each sanitised request/response pair
+ *   is written to a JSON fixture file.
+ * - replay: nothing goes out; responses are served from the fixture files
+ *   and an unmatched request fails.
+ *
+ * Fixtures are keyed by method, path + query and request body, so a
+ * recording can be replayed against any base URL. Repeated identical
+ * requests are replayed in recorded order, repeating the last response.
+ * Authorization / Fastly-Key headers, passwords and admin tokens are never
+ * written to disk.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+interface FixtureResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+interface FixtureFile {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+  responses: FixtureResponse[];
+}
+
+// Only these headers are kept; everything else (Authorization, Fastly-Key, ...) is dropped
+const RECORDED_REQUEST_HEADERS = ['content-type', 'accept', 'surrogate-key'];
+const RECORDED_RESPONSE_HEADERS = ['content-type', 'retry-after'];
+const REDACTED_BODY_KEYS = ['password', 'oauth_consumer_secret', 'oauth_token_secret', 'integration_token'];
+const REDACTED = '[REDACTED]';
+const ADMIN_TOKEN_PATH = '/V1/integration/admin/token';
+
+/** Raised in replay mode for a request with no recorded fixture; never retried */
+export class HttpFixtureMissingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HttpFixtureMissingError';
+  }
+}
+
+let mode: FixtureMode = 'off';
+let fixtureDir = '';
+// Keys recorded by this process (first write replaces an older file) and replay positions
+const recordedKeys = new Set<string>();
+const replayPositions = new Map<string, number>();
+
+/**
+ * Set the fixture mode for every HTTP client in this process.
+ */
+export function configureHttpFixtures(fixtureMode: FixtureMode, dir: string): void {
+  mode = fixtureMode;
+  fixtureDir = path.resolve(dir);
+  recordedKeys.clear();
+  replayPositions.clear();
+  if (mode === 'record') {
+    fs.mkdirSync(fixtureDir, { recursive: true });
+  }
+}
+
+/**
+ * fetch() replacement used by the HTTP clients; honours the fixture mode.
+ */
+export async function httpFetch(url: string, init: RequestInit): Promise<Response> {
+  if (mode === 'off') return fetch(url, init);
+
+  const method = (init.method ?? 'GET').toUpperCase();
+  const requestBody = sanitizeBody(parseBody(init.body));
+  const key = fixtureKey(method, url, requestBody);
+  const filePath = path.join(fixtureDir, `${fixtureName(method, url)}-${key}.json`);
+
+  if (mode === 'replay') {
+    return replay(filePath, key, method, url);
+  }
+
+  const response = await fetch(url, init);
+  const body = await response.clone().text();
+  record(filePath, key, {
+    request: {
+      method,
+      url,
+      headers: pickHeaders(new Headers(init.headers), RECORDED_REQUEST_HEADERS),
+      body: requestBody,
+    },
+    responses: [{
+      status: response.status,
+      headers: pickHeaders(response.headers, RECORDED_RESPONSE_HEADERS),
+      body: new URL(url).pathname.endsWith(ADMIN_TOKEN_PATH) && response.ok ? JSON.stringify(REDACTED) : body,
+    }],
+  });
+  return response;
+}
+
+// ── Private ─────────────────────────────────────────────────────────────────
+
+function replay(filePath: string, key: string, method: string, url: string): Response {
+  if (!fs.existsSync(filePath)) {
+    throw new HttpFixtureMissingError(`No HTTP fixture for ${method} ${pathAndQuery(url)} (expected ${filePath}). Record it with MCP_FIXTURE_MODE=record.`);
+  }
+  const fixture = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as FixtureFile;
+  const position = replayPositions.get(key) ?? 0;
+  replayPositions.set(key, position + 1);
+  const recorded = fixture.responses[Math.min(position, fixture.responses.length - 1)];
+  return new Response(recorded.status === 204 ? null : recorded.body, {
+    status: recorded.status,
+    headers: recorded.headers,
+  });
+}
+
+function record(filePath: string, key: string, entry: FixtureFile): void {
+  if (recordedKeys.has(key) && fs.existsSync(filePath)) {
+    const existing = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as FixtureFile;
+    existing.responses.push(...entry.responses);
+    entry = existing;
+  }
+  recordedKeys.add(key);
+  fs.writeFileSync(filePath, JSON.stringify(entry, null, 2) + '\n', 'utf-8');
+}
+
+function fixtureKey(method: string, url: string, body: unknown): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${method} ${pathAndQuery(url)}\n${body === undefined ? '' : JSON.stringify(body)}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/** Readable file name prefix, e.g. "GET_rest_default_V1_products" */
+function fixtureName(method: string, url: string): string {
+  const slug = new URL(url).pathname.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  return `${method}_${slug}`.slice(0, 100);
+}
+
+function pathAndQuery(url: string): string {
+  const parsed = new URL(url);
+  return parsed.pathname + parsed.search;
+}
+
+function parseBody(body: RequestInit['body']): unknown {
+  if (body === undefined || body === null) return undefined;
+  const text = String(body);
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function sanitizeBody(body: unknown): unknown {
+  if (Array.isArray(body)) return body.map(sanitizeBody);
+  if (typeof body !== 'object' || body === null) return body;
+  const sanitized: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(body)) {
+    sanitized[k] = REDACTED_BODY_KEYS.includes(k) ? REDACTED : sanitizeBody(v);
+  }
+  return sanitized;
+}
+
+function pickHeaders(headers: Headers, names: string[]): Record<string, string> {
+  const picked: Record<string, string> = {};
+  for (const name of names) {
+    const value = headers.get(name);
+    if (value !== null) picked[name] = value;
+  }
+  return picked;
+}
@@ -3,9 +3,12 @@
  * Wraps all HTTP calls to the Magento Admin REST API.
  * Uses native Node.js fetch (available in Node 18+).
  * Supports both Bearer token and OAuth 1.0 authentication.
+ * Transient failures (timeouts, 429/502/503/504) are retried with
+ * exponential backoff and jitter, honouring Retry-After.
  */
 
 import * as crypto from 'crypto';
+import { httpFetch, HttpFixtureMissingError } from './httpFixtures';
 
 export interface OAuthCredentials {
   consumerKey: string;
@@ -30,21 +33,90 @@ export interface MagentoSearchCriteria {
   currentPage?: number;
 }
 
+/** One page of a searchCriteria endpoint */
+export interface MagentoSearchPage<T> {
+  items: T[];
+  total_count: number;
+  current_page: number;
+}
+
+/** All items of a search, or the first maxItems of them */
+export interface MagentoSearchResult<T> {
+  items: T[];
+  total_count: number;
+  /** True if total_count exceeds the items returned */
+  truncated: boolean;
+}
+
 export interface MagentoApiError {
   message: string;
   parameters?: unknown[];
   trace?: string;
 }
 
+export interface MagentoClientOptions {
+  /** Abort a request that has not answered after this many ms */
+  requestTimeoutMs: number;
+  /** Retries after the first attempt */
+  maxRetries: number;
+  /** First retry delay; doubles on every retry, with full jitter */
+  retryBaseDelayMs: number;
+  /** Longest single wait; a longer Retry-After fails the call instead */
+  retryMaxDelayMs: number;
+  /** Page size for paginate() and searchAll() */
+  searchPageSize: number;
+}
+
+const DEFAULT_CLIENT_OPTIONS: MagentoClientOptions = {
+  requestTimeoutMs: 30_000,
+  maxRetries: 3,
+  retryBaseDelayMs: 500,
+  retryMaxDelayMs: 10_000,
+  searchPageSize: 200,
+};
+
+// Responses worth retrying: rate limiting and gateway/overload errors from the CDN or PHP-FPM
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+/** A write request recorded instead of sent while in dry-run mode */
+export interface IntendedRequest {
+  method: string;
+  endpoint: string;
+  body?: unknown;
+  store_code?: string;
+}
+
 let nonceCounter = 0;
 
 export class MagentoRestClient {
   private oauth: OAuthCredentials | null = null;
+  private dryRunLog: IntendedRequest[] | null = null;
+  private options: MagentoClientOptions;
+  private retries = 0;
+  private throttleListener: (() => void) | null = null;
+  private tokenRefresher: ((staleToken: string) => Promise<string>) | null = null;
+  private abortSignal: AbortSignal | null = null;
 
   constructor(
     private baseUrl: string,
     private token: string | null = null,
-  ) {}
+    options: Partial<MagentoClientOptions> = {},
+  ) {
+    this.options = {
+      requestTimeoutMs: options.requestTimeoutMs ?? DEFAULT_CLIENT_OPTIONS.requestTimeoutMs,
+      maxRetries: options.maxRetries ?? DEFAULT_CLIENT_OPTIONS.maxRetries,
+      retryBaseDelayMs: options.retryBaseDelayMs ?? DEFAULT_CLIENT_OPTIONS.retryBaseDelayMs,
+      retryMaxDelayMs: options.retryMaxDelayMs ?? DEFAULT_CLIENT_OPTIONS.retryMaxDelayMs,
+      searchPageSize: options.searchPageSize ?? DEFAULT_CLIENT_OPTIONS.searchPageSize,
+    };
+  }
+
+  /**
+   * Number of retried requests made by this client so far.
+   */
+  get retryCount(): number {
+    return this.retries;
+  }
 
   setToken(token: string): void {
     this.token = token;
@@ -54,6 +126,37 @@ export class MagentoRestClient {
     this.oauth = credentials;
   }
 
+  /**
+   * Be notified whenever Magento answers 429 or 5xx, so callers can slow down.
+   */
+  setThrottleListener(listener: () => void): void {
+    this.throttleListener = listener;
+  }
+
+  /**
+   * Re-acquire the bearer token when Magento answers 401. The failed request
+   * is retried once with the token the refresher returns.
+   */
+  setTokenRefresher(refresher: (staleToken: string) => Promise<string>): void {
+    this.tokenRefresher = refresher;
+  }
+
+  /**
+   * Abort in-flight requests and retry waits when the signal fires (the
+   * client cancelled the call). Requests then fail instead of retrying.
+   */
+  setAbortSignal(signal: AbortSignal): void {
+    this.abortSignal = signal;
+  }
+
+  /**
+   * Record PUT/POST/DELETE requests into the given list instead of sending them.
+   * Intercepted calls resolve to null. GETs and token requests still go out.
+   */
+  setDryRun(log: IntendedRequest[]): void {
+    this.dryRunLog = log;
+  }
+
   /**
    * Get an admin bearer token via username/password.
    */
@@ -72,50 +175,90 @@ export class MagentoRestClient {
   async get<T = unknown>(endpoint: string, params?: Record<string, string>, storeCode?: string): Promise<T> {
     const baseUrl = this.buildBaseUrl(endpoint, storeCode);
     const url = this.appendQueryString(baseUrl, params);
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: this.authHeaders('GET', baseUrl, params),
-    });
-    return this.handleResponse<T>(response);
+    return this.request<T>('GET', url, () => this.authHeaders('GET', baseUrl, params), undefined, true);
   }
 
   /**
    * Perform a POST request against the Magento REST API.
    */
   async post<T = unknown>(endpoint: string, body: unknown, requireAuth = true, storeCode?: string): Promise<T> {
+    if (this.dryRunLog && requireAuth) {
+      return this.recordIntended<T>('POST', endpoint, body, storeCode);
+    }
     const baseUrl = this.buildBaseUrl(endpoint, storeCode);
-    const headers = requireAuth ? this.authHeaders('POST', baseUrl) : this.baseHeaders();
-    const response = await fetch(baseUrl, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(body),
-    });
-    return this.handleResponse<T>(response);
+    const headers = () => (requireAuth ? this.authHeaders('POST', baseUrl) : this.baseHeaders());
+    return this.request<T>('POST', baseUrl, headers, body, requireAuth);
   }
 
   /**
    * Perform a PUT request against the Magento REST API.
    */
   async put<T = unknown>(endpoint: string, body: unknown, storeCode?: string): Promise<T> {
+    if (this.dryRunLog) {
+      return this.recordIntended<T>('PUT', endpoint, body, storeCode);
+    }
     const baseUrl = this.buildBaseUrl(endpoint, storeCode);
-    const response = await fetch(baseUrl, {
-      method: 'PUT',
-      headers: this.authHeaders('PUT', baseUrl),
-      body: JSON.stringify(body),
-    });
-    return this.handleResponse<T>(response);
+    return this.request<T>('PUT', baseUrl, () => this.authHeaders('PUT', baseUrl), body, true);
   }
 
   /**
    * Perform a DELETE request against the Magento REST API.
    */
   async delete<T = unknown>(endpoint: string, storeCode?: string): Promise<T> {
+    if (this.dryRunLog) {
+      return this.recordIntended<T>('DELETE', endpoint, undefined, storeCode);
+    }
     const baseUrl = this.buildBaseUrl(endpoint, storeCode);
-    const response = await fetch(baseUrl, {
-      method: 'DELETE',
-      headers: this.authHeaders('DELETE', baseUrl),
-    });
-    return this.handleResponse<T>(response);
+    return this.request<T>('DELETE', baseUrl, () => this.authHeaders('DELETE', baseUrl), undefined, true);
+  }
+
+  /**
+   * Walk a searchCriteria endpoint page by page until total_count is reached.
+   * criteria.pageSize overrides the configured page size; currentPage is ignored.
+   */
+  async *paginate<T = Record<string, unknown>>(
+    endpoint: string,
+    criteria: MagentoSearchCriteria = {},
+    storeCode?: string,
+  ): AsyncGenerator<MagentoSearchPage<T>> {
+    const pageSize = criteria.pageSize ?? this.options.searchPageSize;
+    let fetched = 0;
+
+    for (let page = 1; ; page++) {
+      const params = this.buildSearchParams({ ...criteria, pageSize, currentPage: page });
+      const result = await this.get<{ items?: T[] | null; total_count?: number }>(endpoint, params, storeCode);
+      const items = result.items ?? [];
+      const totalCount = result.total_count ?? items.length;
+      fetched += items.length;
+
+      yield { items, total_count: totalCount, current_page: page };
+
+      // Magento answers an out-of-range page with the last page again, so stop on the count
+      if (items.length === 0 || items.length < pageSize || fetched >= totalCount) return;
+    }
+  }
+
+  /**
+   * Collect every item of a search, stopping early once maxItems are collected.
+   */
+  async searchAll<T = Record<string, unknown>>(
+    endpoint: string,
+    criteria: MagentoSearchCriteria = {},
+    options: { storeCode?: string; maxItems?: number } = {},
+  ): Promise<MagentoSearchResult<T>> {
+    const items: T[] = [];
+    let totalCount = 0;
+
+    for await (const page of this.paginate<T>(endpoint, criteria, options.storeCode)) {
+      totalCount = page.total_count;
+      items.push(...page.items);
+      if (options.maxItems !== undefined && items.length >= options.maxItems) {
+        items.length = Math.min(items.length, options.maxItems);
+        break;
+      }
+    }
+
+    return { items, total_count: Math.max(totalCount, items.length), truncated: totalCount > items.length };
   }
 
   /**
@@ -155,6 +298,132 @@ export class MagentoRestClient {
 
   // ── Private ─────────────────────────────────────────────────────────────
 
+  /**
+   * Send a request with timeout and retries.
+   *
+   * GET, PUT and DELETE are idempotent and are retried on network errors,
+   * timeouts and retryable statuses. POST is only retried on 429, where
+   * Magento rejected the request before processing it. Headers are rebuilt
+   * per attempt so OAuth nonces and timestamps stay fresh.
+   *
+   * A 401 on a bearer-token request re-acquires the token through the
+   * refresher (if one is set) and retries once, whatever the method: Magento
+   * rejects an expired token before processing the request.
+   */
+  private async request<T>(
+    method: string,
+    url: string,
+    buildHeaders: () => Record<string, string>,
+    body: unknown,
+    authenticated: boolean,
+  ): Promise<T> {
+    const idempotent = method !== 'POST';
+    let tokenRefreshed = false;
+
+    for (let attempt = 0; ; attempt++) {
+      this.throwIfCancelled(method, url);
+      const canRetry = attempt < this.options.maxRetries;
+      const timeout = AbortSignal.timeout(this.options.requestTimeoutMs);
+      let response: Response;
+      try {
+        response = await httpFetch(url, {
+          method,
+          headers: buildHeaders(),
+          body: body === undefined ? undefined : JSON.stringify(body),
+          signal: this.abortSignal ? AbortSignal.any([this.abortSignal, timeout]) : timeout,
+        });
+      } catch (err) {
+        if (err instanceof HttpFixtureMissingError) throw err;
+        this.throwIfCancelled(method, url);
+        const error = isTimeoutError(err)
+          ? new Error(`Magento API request timed out after ${this.options.requestTimeoutMs} ms: ${method} ${url}`)
+          : err;
+        if (!idempotent || !canRetry) throw error;
+        await this.waitBeforeRetry(this.backoffDelay(attempt));
+        continue;
+      }
+
+      if (response.status === 401 && authenticated && !tokenRefreshed && this.canRefreshToken()) {
+        tokenRefreshed = true;
+        await response.body?.cancel();
+        this.token = await this.tokenRefresher!(this.token!);
+        attempt--; // the re-authenticated attempt does not count as a retry
+        continue;
+      }
+
+      if (RETRYABLE_STATUSES.includes(response.status)) {
+        this.throttleListener?.();
+      }
+
+      const retryable = idempotent ? RETRYABLE_STATUSES.includes(response.status) : response.status === 429;
+      if (retryable && canRetry) {
+        const delay = this.retryDelay(attempt, response.headers.get('retry-after'));
+        if (delay !== null) {
+          await response.body?.cancel();
+          await this.waitBeforeRetry(delay);
+          continue;
+        }
+      }
+
+      return this.handleResponse<T>(response);
+    }
+  }
+
+  private canRefreshToken(): boolean {
+    return this.tokenRefresher !== null && this.oauth === null && this.token !== null;
+  }
+
+  /**
+   * Delay before the next attempt: Retry-After if the server sent one,
+   * otherwise exponential backoff. Null if Retry-After asks for longer
+   * than we are willing to wait.
+   */
+  private retryDelay(attempt: number, retryAfter: string | null): number | null {
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+      if (!Number.isNaN(ms)) {
+        return ms > this.options.retryMaxDelayMs ? null : Math.max(0, ms);
+      }
+    }
+    return this.backoffDelay(attempt);
+  }
+
+  /** Exponential backoff with full jitter */
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.options.retryMaxDelayMs, this.options.retryBaseDelayMs * 2 ** attempt);
+    return Math.floor(Math.random() * ceiling);
+  }
+
+  private async waitBeforeRetry(ms: number): Promise<void> {
+    this.retries++;
+    const signal = this.abortSignal;
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(done, ms);
+      signal?.addEventListener('abort', done, { once: true });
+      function done(): void {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      }
+    });
+  }
+
+  /** A write cut off in flight may still have been applied by Magento, so the error says so */
+  private throwIfCancelled(method: string, url: string): void {
+    if (!this.abortSignal?.aborted) return;
+    throw new Error(
+      method === 'GET'
+        ? `Request cancelled: ${method} ${url}`
+        : `Request cancelled: ${method} ${url} (if it was already sent, Magento may still have applied it)`,
+    );
+  }
+
+  private recordIntended<T>(method: string, endpoint: string, body: unknown, storeCode?: string): Promise<T> {
+    this.dryRunLog!.push({ method, endpoint, body, store_code: storeCode });
+    return Promise.resolve(null as T);
+  }
+
   private buildBaseUrl(endpoint: string, storeCode?: string): string {
     const base = this.baseUrl.replace(/\/+$/, '');
     const scope = storeCode ? `/${storeCode}` : '';
@@ -265,6 +534,10 @@ export class MagentoRestClient {
   }
 }
 
+function isTimeoutError(err: unknown): boolean {
+  return err instanceof Error && (err.name === 'TimeoutError' || err.name === 'AbortError');
+}
+
 export class MagentoApiException extends Error {
   constructor(
     public readonly statusCode: number,
@@ -3,13 +3,21 @@
  * All values configurable via environment variables or a local config file.
  */
 
+import * as path from 'path';
+
 export interface McpConfig {
   /** Max SKUs per bulk commit (default 500) */
   maxSkusPerBulkCommit: number;
 
+  /** Max CMS pages or blocks per bulk update (default 200) */
+  maxCmsItemsPerBulkCommit: number;
+
   /** Max coupon quantity per generation request (default 1000) */
   maxCouponQtyPerGeneration: number;
 
+  /** Max URL rewrites seo.report_redirect_chains loads; the report says when it stopped short (default 20000) */
+  maxRedirectRewritesScanned: number;
+
   /** Price change threshold percentage that triggers a warning (default 50) */
   priceChangeThresholdPercent: number;
 
@@ -31,9 +39,39 @@ export interface McpConfig {
   /** Audit log file path (default "./audit.jsonl") */
   auditLogPath: string;
 
+  /** Rotate the audit log once it reaches this many MB, 0 = no size limit (default 50) */
+  auditMaxFileMb: number;
+
+  /** Rotate the audit log at the first record of each UTC day (default true) */
+  auditRotateDaily: boolean;
+
+  /** Delete rotated audit files older than this many days, 0 = keep forever (default 0) */
+  auditRetentionDays: number;
+
+  /** Key signing the audit hash chain with HMAC-SHA256 (optional, from env) */
+  auditHmacKey: string | null;
+
+  /** Magento usernames that may read every user's audit records; others see only their own */
+  auditAdminUsers: string[];
+
   /** Idempotency ledger file path (default "./idempotency.json") */
   idempotencyLedgerPath: string;
 
+  /** Idempotency keys are forgotten after this many hours, 0 = never (default 168) */
+  idempotencyTtlHours: number;
+
+  /** Most recent idempotency keys kept, 0 = unlimited (default 10000) */
+  idempotencyMaxEntries: number;
+
+  /** Plan storage backend: "file" keeps prepared plans across restarts (default), "memory" does not */
+  planStorage: 'memory' | 'file';
+
+  /** Plan file for the "file" backend (default "plans.json" next to the idempotency ledger) */
+  planStorePath: string;
+
+  /** Connection profiles file (default "./profiles.json"; optional unless MCP_PROFILES_PATH is set) */
+  profilesPath: string;
+
   /** Allowed update fields for catalog bulk updates */
   allowedCatalogUpdateFields: string[];
 
@@ -48,11 +86,82 @@ export interface McpConfig {
 
   /** Fastly API token (optional, from env) */
   fastlyApiToken: string | null;
+
+  /** Abort a Magento REST request that has not answered after this many ms (default 30000) */
+  requestTimeoutMs: number;
+
+  /** Retries after the first attempt for transient Magento failures (default 3) */
+  maxRetries: number;
+
+  /** First retry delay in ms; doubles on every retry, with jitter (default 500) */
+  retryBaseDelayMs: number;
+
+  /** Longest single wait between retries, including Retry-After (default 10000) */
+  retryMaxDelayMs: number;
+
+  /** Page size used when walking Magento search results (default 200) */
+  searchPageSize: number;
+
+  /** Admin token lifetime configured in Magento (oauth/access_token_lifetime/admin), used to estimate expiry (default 4) */
+  adminTokenLifetimeHours: number;
+
+  /** Items a bulk commit writes in parallel per Magento instance (default 4) */
+  bulkConcurrency: number;
+
+  /** Bulk commit item starts per second per Magento instance, 0 = unlimited (default 10) */
+  bulkRequestsPerSecond: number;
+
+  /** Submit catalog and pricing commits to Magento's async bulk API by default (default false) */
+  asyncBulk: boolean;
+
+  /** How long an async bulk commit waits for Magento's consumer to process its first operation, 0 = don't wait (default 60) */
+  asyncBulkStartTimeoutSeconds: number;
+
+  /** HTTP fixture mode: "record" saves Magento/Fastly traffic, "replay" serves it from disk (default off) */
+  fixtureMode: 'off' | 'record' | 'replay';
+
+  /** Directory holding HTTP fixture files (default ./fixtures) */
+  fixtureDir: string;
+
+  /** Record write requests instead of sending them, for every call (default false) */
+  dryRun: boolean;
+
+  /** Highest RiskTier exposed as a tool (default 3 — all tiers) */
+  maxRiskTier: number;
+
+  /** Withhold every action that writes to Magento or the CDN (default false) */
+  readOnly: boolean;
+
+  /** If non-empty, only actions matching one of these names or namespaces (e.g. "catalog.*") are exposed */
+  toolAllowlist: string[];
+
+  /** Actions matching one of these names or namespaces are never exposed */
+  toolDenylist: string[];
+
+  /** Transport the MCP server listens on: "stdio" (default) or "http" (Streamable HTTP) */
+  transport: 'stdio' | 'http';
+
+  /** HTTP transport bind address (default "127.0.0.1") */
+  httpHost: string;
+
+  /** HTTP transport port (default 3000) */
+  httpPort: number;
+
+  /** Bearer token clients must send to the HTTP transport (required unless bound to localhost) */
+  httpAuthToken: string | null;
+
+  /** Close HTTP sessions (and forget their credentials) after this many idle minutes (default 30, 0 = never) */
+  httpSessionIdleMinutes: number;
+
+  /** Maximum concurrent HTTP sessions; further initialize requests are refused (default 100) */
+  httpMaxSessions: number;
 }
 
 const defaultConfig: McpConfig = {
   maxSkusPerBulkCommit: 500,
+  maxCmsItemsPerBulkCommit: 200,
   maxCouponQtyPerGeneration: 1000,
+  maxRedirectRewritesScanned: 20_000,
   priceChangeThresholdPercent: 50,
   maxDiscountPercent: 50,
   tier2ConfirmationRequired: true,
@@ -60,7 +169,17 @@ const defaultConfig: McpConfig = {
   planExpiryMinutes: 30,
   cachePurgeRateLimitPerMinute: 10,
   auditLogPath: './audit.jsonl',
+  auditMaxFileMb: 50,
+  auditRotateDaily: true,
+  auditRetentionDays: 0,
+  auditHmacKey: null,
+  auditAdminUsers: [],
   idempotencyLedgerPath: './idempotency.json',
+  idempotencyTtlHours: 168,
+  idempotencyMaxEntries: 10_000,
+  planStorage: 'file',
+  planStorePath: './plans.json',
+  profilesPath: './profiles.json',
   allowedCatalogUpdateFields: [
     'name',
     'description',
@@ -94,6 +213,29 @@ const defaultConfig: McpConfig = {
   ],
   fastlyServiceId: null,
   fastlyApiToken: null,
+  requestTimeoutMs: 30_000,
+  maxRetries: 3,
+  retryBaseDelayMs: 500,
+  retryMaxDelayMs: 10_000,
+  searchPageSize: 200,
+  adminTokenLifetimeHours: 4,
+  bulkConcurrency: 4,
+  bulkRequestsPerSecond: 10,
+  asyncBulk: false,
+  asyncBulkStartTimeoutSeconds: 60,
+  fixtureMode: 'off',
+  fixtureDir: './fixtures',
+  dryRun: false,
+  maxRiskTier: 3,
+  readOnly: false,
+  toolAllowlist: [],
+  toolDenylist: [],
+  transport: 'stdio',
+  httpHost: '127.0.0.1',
+  httpPort: 3000,
+  httpAuthToken: null,
+  httpSessionIdleMinutes: 30,
+  httpMaxSessions: 100,
 };
 
 function parseIntEnv(key: string, fallback: number): number {
@@ -109,11 +251,23 @@ function parseBoolEnv(key: string, fallback: boolean): boolean {
   return val.toLowerCase() === 'true' || val === '1';
 }
 
+function parseListEnv(key: string, fallback: string[]): string[] {
+  const val = process.env[key];
+  if (val === undefined) return fallback;
+  return val.split(',').map((s) => s.trim()).filter(Boolean);
+}
+
+function parseFixtureMode(val: string | undefined): McpConfig['fixtureMode'] {
+  return val === 'record' || val === 'replay' ? val : 'off';
+}
+
 export function loadConfig(): McpConfig {
   return {
     ...defaultConfig,
     maxSkusPerBulkCommit: parseIntEnv('MCP_MAX_SKUS_PER_BULK', defaultConfig.maxSkusPerBulkCommit),
+    maxCmsItemsPerBulkCommit: parseIntEnv('MCP_MAX_CMS_ITEMS_PER_BULK', defaultConfig.maxCmsItemsPerBulkCommit),
     maxCouponQtyPerGeneration: parseIntEnv('MCP_MAX_COUPON_QTY', defaultConfig.maxCouponQtyPerGeneration),
+    maxRedirectRewritesScanned: parseIntEnv('MCP_MAX_REDIRECT_REWRITES', defaultConfig.maxRedirectRewritesScanned),
     priceChangeThresholdPercent: parseIntEnv('MCP_PRICE_THRESHOLD_PCT', defaultConfig.priceChangeThresholdPercent),
     maxDiscountPercent: parseIntEnv('MCP_MAX_DISCOUNT_PCT', defaultConfig.maxDiscountPercent),
     tier2ConfirmationRequired: parseBoolEnv('MCP_TIER2_CONFIRM', defaultConfig.tier2ConfirmationRequired),
@@ -121,8 +275,42 @@ export function loadConfig(): McpConfig {
     planExpiryMinutes: parseIntEnv('MCP_PLAN_EXPIRY_MIN', defaultConfig.planExpiryMinutes),
     cachePurgeRateLimitPerMinute: parseIntEnv('MCP_CACHE_RATE_LIMIT', defaultConfig.cachePurgeRateLimitPerMinute),
     auditLogPath: process.env['MCP_AUDIT_LOG_PATH'] ?? defaultConfig.auditLogPath,
+    auditMaxFileMb: parseIntEnv('MCP_AUDIT_MAX_FILE_MB', defaultConfig.auditMaxFileMb),
+    auditRotateDaily: parseBoolEnv('MCP_AUDIT_ROTATE_DAILY', defaultConfig.auditRotateDaily),
+    auditRetentionDays: parseIntEnv('MCP_AUDIT_RETENTION_DAYS', defaultConfig.auditRetentionDays),
+    auditHmacKey: process.env['MCP_AUDIT_HMAC_KEY'] || null,
+    auditAdminUsers: parseListEnv('MCP_AUDIT_ADMIN_USERS', defaultConfig.auditAdminUsers),
     idempotencyLedgerPath: process.env['MCP_IDEMPOTENCY_PATH'] ?? defaultConfig.idempotencyLedgerPath,
+    idempotencyTtlHours: parseIntEnv('MCP_IDEMPOTENCY_TTL_HOURS', defaultConfig.idempotencyTtlHours),
+    idempotencyMaxEntries: parseIntEnv('MCP_IDEMPOTENCY_MAX_ENTRIES', defaultConfig.idempotencyMaxEntries),
+    planStorage: process.env['MCP_PLAN_STORAGE'] === 'memory' ? 'memory' : defaultConfig.planStorage,
+    planStorePath: process.env['MCP_PLAN_STORE_PATH']
+      ?? path.join(path.dirname(process.env['MCP_IDEMPOTENCY_PATH'] ?? defaultConfig.idempotencyLedgerPath), 'plans.json'),
+    profilesPath: process.env['MCP_PROFILES_PATH'] ?? defaultConfig.profilesPath,
     fastlyServiceId: process.env['FASTLY_SERVICE_ID'] ?? null,
     fastlyApiToken: process.env['FASTLY_API_TOKEN'] ?? null,
+    requestTimeoutMs: parseIntEnv('MCP_REQUEST_TIMEOUT_MS', defaultConfig.requestTimeoutMs),
+    maxRetries: parseIntEnv('MCP_MAX_RETRIES', defaultConfig.maxRetries),
+    retryBaseDelayMs: parseIntEnv('MCP_RETRY_BASE_DELAY_MS', defaultConfig.retryBaseDelayMs),
+    retryMaxDelayMs: parseIntEnv('MCP_RETRY_MAX_DELAY_MS', defaultConfig.retryMaxDelayMs),
+    searchPageSize: parseIntEnv('MCP_SEARCH_PAGE_SIZE', defaultConfig.searchPageSize),
+    adminTokenLifetimeHours: parseIntEnv('MCP_ADMIN_TOKEN_LIFETIME_HOURS', defaultConfig.adminTokenLifetimeHours),
+    bulkConcurrency: parseIntEnv('MCP_BULK_CONCURRENCY', defaultConfig.bulkConcurrency),
+    bulkRequestsPerSecond: parseIntEnv('MCP_BULK_RPS', defaultConfig.bulkRequestsPerSecond),
+    asyncBulk: parseBoolEnv('MCP_ASYNC_BULK', defaultConfig.asyncBulk),
+    asyncBulkStartTimeoutSeconds: parseIntEnv('MCP_ASYNC_BULK_START_TIMEOUT_SECONDS', defaultConfig.asyncBulkStartTimeoutSeconds),
+    fixtureMode: parseFixtureMode(process.env['MCP_FIXTURE_MODE']),
+    fixtureDir: process.env['MCP_FIXTURE_DIR'] ?? defaultConfig.fixtureDir,
+    dryRun: parseBoolEnv('MCP_DRY_RUN', defaultConfig.dryRun),
+    maxRiskTier: parseIntEnv('MCP_MAX_RISK_TIER', defaultConfig.maxRiskTier),
+    readOnly: parseBoolEnv('MCP_READ_ONLY', defaultConfig.readOnly),
+    toolAllowlist: parseListEnv('MCP_TOOL_ALLOWLIST', defaultConfig.toolAllowlist),
+    toolDenylist: parseListEnv('MCP_TOOL_DENYLIST', defaultConfig.toolDenylist),
+    transport: process.env['MCP_TRANSPORT'] === 'http' ? 'http' : defaultConfig.transport,
+    httpHost: process.env['MCP_HTTP_HOST'] ?? defaultConfig.httpHost,
+    httpPort: parseIntEnv('MCP_HTTP_PORT', defaultConfig.httpPort),
+    httpAuthToken: process.env['MCP_HTTP_TOKEN'] ?? null,
+    httpSessionIdleMinutes: parseIntEnv('MCP_HTTP_SESSION_IDLE_MINUTES', defaultConfig.httpSessionIdleMinutes),
+    httpMaxSessions: parseIntEnv('MCP_HTTP_MAX_SESSIONS', defaultConfig.httpMaxSessions),
   };
 }
@@ -0,0 +1,230 @@
+/**
+ * Named connection profiles (e.g. "brand-a-staging", "brand-a-production").
+ *
+ * Loaded from a JSON file (MCP_PROFILES_PATH, default ./profiles.json):
+ *
+ *   {
+ *     "profiles": {
+ *       "brand-a-production": {
+ *         "baseUrl": "https://brand-a.example.com",
+ *         "environment": "production",
+ *         "auth": { "integrationToken": "${BRAND_A_PROD_TOKEN}" },
+ *         "fastly": { "serviceId": "...", "apiToken": "${BRAND_A_FASTLY_TOKEN}" },
+ *         "guardrails": { "maxSkusPerBulkCommit": 100, "readOnly": true }
+ *       }
+ *     }
+ *   }
+ *
+ * String values may reference environment variables as ${NAME}, so secrets
+ * need not live in the file. A profile whose variables are unset is listed
+ * but cannot be used.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { McpConfig } from './index';
+import { OAuthCredentials } from '../client/magentoRest';
+
+/** Settings a profile may override; everything else stays server-wide */
+export const PROFILE_OVERRIDE_KEYS = [
+  'maxSkusPerBulkCommit',
+  'maxCmsItemsPerBulkCommit',
+  'maxCouponQtyPerGeneration',
+  'priceChangeThresholdPercent',
+  'maxDiscountPercent',
+  'tier2ConfirmationRequired',
+  'planExpiryMinutes',
+  'cachePurgeRateLimitPerMinute',
+  'allowedCatalogUpdateFields',
+  'allowedCmsPageUpdateFields',
+  'allowedCmsBlockUpdateFields',
+  'readOnly',
+  'dryRun',
+  'asyncBulk',
+] as const;
+
+export type ProfileOverrides = Partial<Pick<McpConfig, (typeof PROFILE_OVERRIDE_KEYS)[number]>>;
+
+/** How to authenticate against Magento */
+export type MagentoCredentials =
+  | { type: 'oauth'; oauth: OAuthCredentials }
+  | { type: 'integration_token'; token: string }
+  | { type: 'admin_token'; username: string; password: string };
+
+export interface ConnectionProfile {
+  name: string;
+  description: string | null;
+  baseUrl: string;
+  environment: string;
+  credentials: MagentoCredentials;
+  fastly: { serviceId: string; apiToken: string } | null;
+  overrides: ProfileOverrides;
+  /** Environment variables referenced by the profile but not set; the profile is unusable until they are */
+  missingEnv: string[];
+}
+
+const ProfileAuthSchema = z.union([
+  z.object({
+    oauthConsumerKey: z.string(),
+    oauthConsumerSecret: z.string(),
+    oauthToken: z.string(),
+    oauthTokenSecret: z.string(),
+  }),
+  z.object({ integrationToken: z.string() }),
+  z.object({ username: z.string(), password: z.string() }),
+]);
+
+const ProfileOverridesSchema = z.object({
+  maxSkusPerBulkCommit: z.number().int().positive(),
+  maxCmsItemsPerBulkCommit: z.number().int().positive(),
+  maxCouponQtyPerGeneration: z.number().int().positive(),
+  priceChangeThresholdPercent: z.number().positive(),
+  maxDiscountPercent: z.number().positive(),
+  tier2ConfirmationRequired: z.boolean(),
+  planExpiryMinutes: z.number().int().positive(),
+  cachePurgeRateLimitPerMinute: z.number().int().positive(),
+  allowedCatalogUpdateFields: z.array(z.string()),
+  allowedCmsPageUpdateFields: z.array(z.string()),
+  allowedCmsBlockUpdateFields: z.array(z.string()),
+  readOnly: z.boolean(),
+  dryRun: z.boolean(),
+  asyncBulk: z.boolean(),
+}).partial().strict();
+
+const ProfileFileSchema = z.object({
+  profiles: z.record(
+    z.string().regex(/^[a-zA-Z0-9_.-]+$/, 'Profile names may only contain letters, digits, ".", "_" and "-"'),
+    z.object({
+      description: z.string().optional(),
+      baseUrl: z.string(),
+      environment: z.string().optional(),
+      auth: ProfileAuthSchema,
+      fastly: z.object({ serviceId: z.string(), apiToken: z.string() }).optional(),
+      guardrails: ProfileOverridesSchema.optional(),
+    }),
+  ),
+});
+
+export class ProfileRegistry {
+  private profiles = new Map<string, ConnectionProfile>();
+  private configs = new Map<string, McpConfig>();
+
+  constructor(private baseConfig: McpConfig, profiles: ConnectionProfile[] = []) {
+    for (const profile of profiles) {
+      this.profiles.set(profile.name, profile);
+    }
+  }
+
+  /**
+   * Load profiles from a JSON file. A missing file yields an empty registry
+   * unless the path was set explicitly.
+   */
+  static load(baseConfig: McpConfig, filePath: string, required: boolean): ProfileRegistry {
+    const resolved = path.resolve(filePath);
+    if (!fs.existsSync(resolved)) {
+      if (required) {
+        throw new Error(`Profiles file not found: ${resolved}`);
+      }
+      return new ProfileRegistry(baseConfig);
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+    } catch (err) {
+      throw new Error(`Profiles file ${resolved} is not valid JSON: ${(err as Error).message}`);
+    }
+    const parsed = ProfileFileSchema.safeParse(raw);
+    if (!parsed.success) {
+      const issues = parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ');
+      throw new Error(`Invalid profiles file ${resolved}: ${issues}`);
+    }
+
+    const profiles = Object.entries(parsed.data.profiles).map(([name, entry]) => {
+      const missingEnv = new Set<string>();
+      const env = (value: string): string => expandEnv(value, missingEnv);
+      const auth = entry.auth;
+
+      let credentials: MagentoCredentials;
+      if ('oauthConsumerKey' in auth) {
+        credentials = {
+          type: 'oauth',
+          oauth: {
+            consumerKey: env(auth.oauthConsumerKey),
+            consumerSecret: env(auth.oauthConsumerSecret),
+            token: env(auth.oauthToken),
+            tokenSecret: env(auth.oauthTokenSecret),
+          },
+        };
+      } else if ('integrationToken' in auth) {
+        credentials = {
+          type: 'integration_token',
+          token: env(auth.integrationToken),
+        };
+      } else {
+        credentials = { type: 'admin_token', username: env(auth.username), password: env(auth.password) };
+      }
+
+      const profile: ConnectionProfile = {
+        name,
+        description: entry.description ?? null,
+        baseUrl: env(entry.baseUrl),
+        environment: entry.environment ?? baseConfig.defaultEnvironment,
+        credentials,
+        fastly: entry.fastly ? { serviceId: env(entry.fastly.serviceId), apiToken: env(entry.fastly.apiToken) } : null,
+        overrides: entry.guardrails ?? {},
+        missingEnv: [...missingEnv],
+      };
+      return profile;
+    });
+
+    return new ProfileRegistry(baseConfig, profiles);
+  }
+
+  get size(): number {
+    return this.profiles.size;
+  }
+
+  list(): ConnectionProfile[] {
+    return [...this.profiles.values()];
+  }
+
+  get(name: string): ConnectionProfile | undefined {
+    return this.profiles.get(name);
+  }
+
+  /**
+   * Server configuration with a profile's Fastly service and guardrail
+   * overrides applied. Null (no profile) returns the server configuration.
+   */
+  configFor(name: string | null): McpConfig {
+    const profile = name ? this.profiles.get(name) : undefined;
+    if (!profile) return this.baseConfig;
+
+    let config = this.configs.get(profile.name);
+    if (!config) {
+      config = {
+        ...this.baseConfig,
+        ...profile.overrides,
+        defaultEnvironment: profile.environment,
+        fastlyServiceId: profile.fastly?.serviceId ?? this.baseConfig.fastlyServiceId,
+        fastlyApiToken: profile.fastly?.apiToken ?? this.baseConfig.fastlyApiToken,
+      };
+      this.configs.set(profile.name, config);
+    }
+    return config;
+  }
+}
+
+/** Replace ${NAME} references with environment values, collecting unset names */
+function expandEnv(value: string, missing: Set<string>): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_match, name: string) => {
+    const resolved = process.env[name];
+    if (resolved === undefined) {
+      missing.add(name);
+      return '';
+    }
+    return resolved;
+  });
+}
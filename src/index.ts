@@ -2,28 +2,42 @@
  * Magento MCP — Main entry point.
  *
  * Wires up all components:
- * - Configuration
+ * - Configuration and connection profiles
  * - Session store
  * - Plan store
  * - Idempotency ledger
  * - Audit logger
  * - Guardrails
+ * - Bulk executor shared by commit actions
+ * - Action pipeline (auth, confirmation, validation, audit)
  * - All action handlers
- * - MCP SDK server over stdio
+ * - MCP resources (audit trail, plans, store topology)
+ * - MCP prompts for common merchandising workflows
+ * - MCP SDK server over stdio or Streamable HTTP
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { ListToolsRequestSchema, ServerNotification, ServerRequest, Tool, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
 
 import { loadConfig } from './config';
-import { SessionStore } from './session/sessionStore';
+import { ProfileRegistry } from './config/profiles';
+import { SessionStore, DEFAULT_SESSION_ID } from './session/sessionStore';
 import { PlanStore } from './session/planStore';
+import { FilePlanStorage, MemoryPlanStorage } from './session/planStorage';
 import { IdempotencyLedger } from './session/idempotencyLedger';
 import { AuditLogger } from './audit/auditLogger';
 import { Guardrails } from './validation/guardrails';
-import { ActionDefinition, ActionContext, RiskTier, AuditRecord } from './protocol/types';
-import { MagentoRestClient } from './client/magentoRest';
+import { ActionDefinition, ActionContext, RiskTier } from './protocol/types';
+import { ActionPipeline } from './protocol/actionPipeline';
+import { BulkExecutor } from './client/bulkExecutor';
+import { configureHttpFixtures } from './client/httpFixtures';
+import { startHttpServer } from './protocol/httpServer';
+import { registerResources } from './protocol/resources';
+import { registerPrompts } from './protocol/prompts';
 
 // Actions
 import { createAuthActions } from './actions/auth';
@@ -35,32 +49,141 @@ import { createCmsActions } from './actions/cms';
 import { createSeoActions } from './actions/seo';
 import { createDiagnosticsActions } from './actions/diagnostics';
 import { createCacheActions } from './actions/cache';
+import { createBulkActions } from './actions/bulk';
+import { createProfileActions } from './actions/profile';
+import { createPlanActions } from './actions/plans';
+import { createAuditActions } from './actions/audit';
+
+// Minimum gap between progress notifications for one request
+const PROGRESS_MIN_INTERVAL_MS = 500;
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
 
 async function main(): Promise<void> {
   // Load configuration
   const config = loadConfig();
 
+  configureHttpFixtures(config.fixtureMode, config.fixtureDir);
+  const profiles = ProfileRegistry.load(config, config.profilesPath, process.env['MCP_PROFILES_PATH'] !== undefined);
+
   // Initialize stores
   const sessionStore = new SessionStore();
-  const planStore = new PlanStore();
-  const idempotencyLedger = new IdempotencyLedger(config.idempotencyLedgerPath);
-  const auditLogger = new AuditLogger(config.auditLogPath);
+  const planStore = new PlanStore(
+    config.planStorage === 'file' ? new FilePlanStorage(config.planStorePath) : new MemoryPlanStorage(),
+    (sessionId) => {
+      const session = sessionStore.get(sessionId);
+      return session
+        ? { username: session.username, profile: session.profile, baseUrl: session.baseUrl, verified: sessionStore.isIdentityVerified(sessionId) }
+        : null;
+    },
+  );
+  const idempotencyLedger = new IdempotencyLedger(config.idempotencyLedgerPath, {
+    ttlHours: config.idempotencyTtlHours,
+    maxEntries: config.idempotencyMaxEntries,
+  });
+  const auditLogger = await AuditLogger.open(config.auditLogPath, {
+    maxBytes: config.auditMaxFileMb * 1024 * 1024,
+    daily: config.auditRotateDaily,
+    retentionDays: config.auditRetentionDays,
+  }, config.auditHmacKey);
   const guardrails = new Guardrails(config);
+  const bulkExecutor = new BulkExecutor({
+    concurrency: config.bulkConcurrency,
+    requestsPerSecond: config.bulkRequestsPerSecond,
+  });
+  const pipeline = new ActionPipeline(sessionStore, auditLogger, guardrails, config, bulkExecutor, profiles, idempotencyLedger);
 
   // Collect all actions from existing handlers
   const allActions: ActionDefinition[] = [
-    ...createAuthActions(sessionStore),
+    ...createAuthActions(sessionStore, config),
+    ...createProfileActions(sessionStore, profiles),
     ...createScopeActions(sessionStore),
-    ...createPromotionsActions(planStore, guardrails, config),
-    ...createCatalogActions(planStore, guardrails, idempotencyLedger, config),
-    ...createPricingActions(planStore, guardrails, idempotencyLedger, config),
-    ...createCmsActions(planStore, guardrails, config),
-    ...createSeoActions(planStore, guardrails, config),
+    ...createPromotionsActions(planStore),
+    ...createCatalogActions(planStore),
+    ...createPricingActions(planStore),
+    ...createCmsActions(planStore),
+    ...createSeoActions(planStore),
     ...createDiagnosticsActions(),
-    ...createCacheActions(guardrails, config),
+    ...createCacheActions(),
+    ...createBulkActions(),
+    ...createPlanActions(planStore),
+    ...createAuditActions(auditLogger),
   ];
 
-  // Create the MCP server using the official SDK
+  // Apply read-only mode, tier ceiling and allow/deny lists before registration
+  const exposedActions: ActionDefinition[] = [];
+  const withheldActions: Array<{ action: ActionDefinition; reason: string }> = [];
+  for (const action of allActions) {
+    const reason = guardrails.withheldReason(action);
+    if (reason) {
+      withheldActions.push({ action, reason });
+    } else {
+      exposedActions.push(action);
+    }
+  }
+
+  // Each transport session gets its own McpServer; all share the same actions and pipeline
+  const createMcpServer = (): McpServer => {
+    const mcpServer = buildMcpServer(exposedActions, pipeline);
+    registerResources(mcpServer, { actions: allActions, pipeline, planStore, auditLogger });
+    registerPrompts(mcpServer);
+    return mcpServer;
+  };
+
+  // Log to stderr (not stdout, to keep protocol clean)
+  process.stderr.write(`\nMagento MCP v1.0.0 (MCP SDK)\n`);
+  process.stderr.write(`Registered ${exposedActions.length} tools\n`);
+  for (const action of exposedActions) {
+    const tier = action.riskTier === 1 ? 'Safe' : action.riskTier === 2 ? 'Risk' : 'Critical';
+    process.stderr.write(`  [Tier ${action.riskTier}/${tier}] ${action.name.replace(/\./g, '_')} — ${action.description}\n`);
+  }
+  if (withheldActions.length > 0) {
+    process.stderr.write(`Withheld ${withheldActions.length} tools\n`);
+    for (const { action, reason } of withheldActions) {
+      process.stderr.write(`  ${action.name.replace(/\./g, '_')} — ${reason}\n`);
+    }
+  }
+  process.stderr.write(`\nEnvironment: ${config.defaultEnvironment}\n`);
+  process.stderr.write(`Fastly: ${config.fastlyServiceId ? 'configured' : 'not configured'}\n`);
+  process.stderr.write(`Base URL: ${process.env.MAGENTO_BASE_URL || '(not set — provide in auth_login params)'}\n`);
+  process.stderr.write(`Audit log: ${config.auditLogPath} (hash chain${config.auditHmacKey ? ', HMAC-signed' : ''})\n`);
+  process.stderr.write(`Idempotency ledger: ${config.idempotencyLedgerPath} (${idempotencyLedger.size} keys)\n`);
+  for (const note of idempotencyLedger.recoveryNotes) {
+    process.stderr.write(`  ${note}\n`);
+  }
+  process.stderr.write(`Plans: ${config.planStorage === 'file' ? config.planStorePath : 'in memory'}\n`);
+  if (profiles.size > 0) {
+    process.stderr.write(`Profiles: ${profiles.list().map((p) => `${p.name} (${p.environment})`).join(', ')}\n`);
+  }
+  if (config.fixtureMode !== 'off') {
+    process.stderr.write(`HTTP fixtures: ${config.fixtureMode} (${config.fixtureDir})\n`);
+  }
+  if (config.dryRun) {
+    process.stderr.write(`Dry run: ON — write requests are recorded, not sent\n`);
+  }
+  process.stderr.write(`Transport: ${config.transport}\n\n`);
+
+  if (config.transport === 'http') {
+    await startHttpServer(config, {
+      createServer: createMcpServer,
+      // Plans outlive the session: the same user can reconnect and commit them
+      onSessionClosed: (sessionId) => {
+        sessionStore.destroy(sessionId);
+      },
+    });
+    process.stderr.write(`Listening on http://${config.httpHost}:${config.httpPort}/mcp${config.httpAuthToken ? ' (bearer token required)' : ''}\n`);
+    return;
+  }
+
+  // Connect via stdio transport
+  const transport = new StdioServerTransport();
+  await createMcpServer().connect(transport);
+}
+
+/**
+ * Create an MCP server with every action registered as a tool.
+ */
+function buildMcpServer(actions: ActionDefinition[], pipeline: ActionPipeline): McpServer {
   const mcpServer = new McpServer(
     { name: 'magento-mcp', version: '1.0.0' },
     {
@@ -69,121 +192,103 @@ async function main(): Promise<void> {
     },
   );
 
-  // Session ID for the single-user stdio session
-  const sessionId = 'default';
-
   // Register each action as an MCP tool
-  for (const action of allActions) {
+  for (const action of actions) {
     // Convert dots to underscores for MCP tool names (e.g. "auth.login" -> "auth_login")
     const toolName = action.name.replace(/\./g, '_');
 
-    mcpServer.tool(
+    // Arguments reach the pipeline unchecked; it validates them against the
+    // action's schema (see publishToolSchemas for what clients see)
+    mcpServer.registerTool(
       toolName,
-      action.description,
-      { params: z.record(z.unknown()).optional().describe('Action parameters as a JSON object') },
-      async (args) => {
-        const params = (args.params || {}) as Record<string, unknown>;
-
-        // Check authentication
-        if (action.requiresAuth) {
-          const token = sessionStore.getToken(sessionId);
-          if (!token) {
-            return {
-              content: [{ type: 'text' as const, text: JSON.stringify({ error: { code: 'NOT_AUTHENTICATED', message: 'Not authenticated. Call auth_login first.' } }, null, 2) }],
-              isError: true,
-            };
-          }
-        }
-
-        // Build action context
-        const context: ActionContext = {
-          sessionId,
-          getToken: () => sessionStore.getToken(sessionId),
-          getBaseUrl: () => sessionStore.getBaseUrl(sessionId),
-          getDefaultScope: () => sessionStore.getDefaultScope(sessionId),
-          getOAuthCredentials: () => sessionStore.getOAuthCredentials(sessionId),
-          getClient: () => {
-            const baseUrl = sessionStore.getBaseUrl(sessionId);
-            const token = sessionStore.getToken(sessionId);
-            if (!baseUrl) throw new Error('No active session');
-            const client = new MagentoRestClient(baseUrl, token);
-            const oauth = sessionStore.getOAuthCredentials(sessionId);
-            if (oauth) client.setOAuth(oauth);
-            return client;
-          },
-          username: sessionStore.getUsername(sessionId),
-        };
-
-        try {
-          const result = await action.handler(params, context);
-
-          // Audit log
-          const auditRecord: AuditRecord = {
-            timestamp: new Date().toISOString(),
-            username: context.username,
-            action: action.name,
-            scope: context.getDefaultScope(),
-            params,
-            result_summary: summarizeResult(result),
-            plan_id: (params['plan_id'] as string) || null,
-            reason: (params['reason'] as string) || null,
-          };
-          auditLogger.log(auditRecord);
-
-          return {
-            content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }],
-          };
-        } catch (err) {
-          const errorMessage = err instanceof Error ? err.message : String(err);
-
-          // Audit the error
-          const auditRecord: AuditRecord = {
-            timestamp: new Date().toISOString(),
-            username: context.username,
-            action: action.name,
-            scope: null,
-            params,
-            result_summary: `ERROR: ${errorMessage}`,
-            plan_id: null,
-            reason: null,
-          };
-          auditLogger.log(auditRecord);
-
+      {
+        title: action.title,
+        description: action.description,
+        inputSchema: ANY_ARGUMENTS,
+        annotations: toolAnnotations(action),
+      },
+      async (args, extra) => {
+        // HTTP clients are keyed by their MCP session ID; stdio has a single session
+        const sessionId = extra.sessionId ?? DEFAULT_SESSION_ID;
+        const outcome = await pipeline.execute(action, (args ?? {}) as Record<string, unknown>, sessionId, {
+          signal: extra.signal,
+          reportProgress: progressReporter(extra),
+        });
+        if (!outcome.ok) {
           return {
-            content: [{ type: 'text' as const, text: JSON.stringify({ error: errorMessage }, null, 2) }],
+            content: [{ type: 'text' as const, text: JSON.stringify({ error: outcome.error }, null, 2) }],
             isError: true,
           };
         }
+        return {
+          content: [{ type: 'text' as const, text: JSON.stringify(outcome.result, null, 2) }],
+        };
       },
     );
   }
 
-  // Log to stderr (not stdout, to keep protocol clean)
-  process.stderr.write(`\nMagento MCP v1.0.0 (MCP SDK)\n`);
-  process.stderr.write(`Registered ${allActions.length} tools\n`);
-  for (const action of allActions) {
-    const tier = action.riskTier === 1 ? 'Safe' : action.riskTier === 2 ? 'Risk' : 'Critical';
-    process.stderr.write(`  [Tier ${action.riskTier}/${tier}] ${action.name.replace(/\./g, '_')} — ${action.description}\n`);
-  }
-  process.stderr.write(`\nEnvironment: ${config.defaultEnvironment}\n`);
-  process.stderr.write(`Fastly: ${config.fastlyServiceId ? 'configured' : 'not configured'}\n`);
-  process.stderr.write(`Base URL: ${process.env.MAGENTO_BASE_URL || '(not set — provide in auth_login params)'}\n`);
-  process.stderr.write(`Audit log: ${config.auditLogPath}\n\n`);
+  publishToolSchemas(mcpServer, actions);
+  return mcpServer;
+}
 
-  // Connect via stdio transport
-  const transport = new StdioServerTransport();
-  await mcpServer.connect(transport);
+/**
+ * What the SDK checks tool arguments against: any object. The SDK would
+ * otherwise reject invalid arguments with a plain-text "Input validation
+ * error" before the pipeline runs, skipping the auth and confirmation
+ * checks, the structured VALIDATION_ERROR and the audit record.
+ */
+const ANY_ARGUMENTS = z.preprocess((args) => args ?? {}, z.object({}).passthrough());
+
+/**
+ * Answer tools/list with each action's own schema as the tool's JSON input
+ * schema, converted the way the SDK converts registered Zod schemas.
+ * Replaces the SDK's handler, which would publish ANY_ARGUMENTS.
+ */
+function publishToolSchemas(mcpServer: McpServer, actions: ActionDefinition[]): void {
+  const tools: Tool[] = actions.map((action) => ({
+    name: action.name.replace(/\./g, '_'),
+    title: action.title,
+    description: action.description,
+    inputSchema: zodToJsonSchema(action.inputSchema, { strictUnions: true, pipeStrategy: 'input' }) as Tool['inputSchema'],
+    annotations: toolAnnotations(action),
+    execution: { taskSupport: 'forbidden' },
+  }));
+  mcpServer.server.setRequestHandler(ListToolsRequestSchema, () => ({ tools }));
 }
 
-function summarizeResult(result: unknown): string {
-  if (result === null || result === undefined) return 'null';
-  if (typeof result === 'object') {
-    const obj = result as Record<string, unknown>;
-    if (obj['message']) return String(obj['message']);
-    if (obj['total_count'] !== undefined) return `total_count: ${obj['total_count']}`;
-    return `object with keys: ${Object.keys(obj).join(', ')}`;
-  }
-  return String(result);
+/**
+ * Build a progress callback that sends MCP progress notifications for the
+ * request, throttled so a 500-item commit does not flood the client.
+ */
+function progressReporter(extra: ToolExtra): ActionContext['reportProgress'] {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return async () => {};
+
+  let lastSentAt = 0;
+  return async (progress, total, message) => {
+    const now = Date.now();
+    if (progress < total && now - lastSentAt < PROGRESS_MIN_INTERVAL_MS) return;
+    lastSentAt = now;
+    await extra.sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, progress, total, message },
+    });
+  };
+}
+
+/**
+ * Derive MCP tool annotations from an action's risk tier and write flag,
+ * so clients can auto-approve read-only tools and warn on destructive ones.
+ */
+function toolAnnotations(action: ActionDefinition): ToolAnnotations {
+  return {
+    title: action.title,
+    readOnlyHint: !action.writes,
+    destructiveHint: action.writes && action.riskTier >= RiskTier.Risk,
+    idempotentHint: !action.writes,
+    // Actions operate on an external Magento instance or CDN
+    openWorldHint: true,
+  };
 }
 
 main().catch((err) => {
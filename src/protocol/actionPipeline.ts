@@ -0,0 +1,411 @@
+/**
+ * Shared action pipeline used by every transport.
+ *
+ * Runs each call through the same steps, in order:
+ *   0. server and profile policy (read-only, tier ceiling, allow/deny lists)
+ *   1. auth check
+ *   2. risk-tier confirmation
+ *   3. schema validation
+ *   4. handler execution (write requests are recorded, not sent, in dry-run mode;
+ *      a write repeating an idempotency key replays the first result instead)
+ *   5. audit logging (with the result status and the targets the call touched)
+ * and maps any failure to a structured { code, message, details } error.
+ */
+
+import * as crypto from 'crypto';
+import { ZodError } from 'zod';
+import {
+  ActionDefinition,
+  ActionContext,
+  ActionError,
+  AuditBulkOutcome,
+  AuditRecord,
+  AuditStatus,
+  ErrorCodes,
+  IdempotencyEntry,
+  RiskTier,
+} from './types';
+import { SessionStore } from '../session/sessionStore';
+import { AuditLogger } from '../audit/auditLogger';
+import { hasTargets, mergeTargets, targetsFromParams } from '../audit/auditQuery';
+import { Guardrails, GuardrailError } from '../validation/guardrails';
+import { MagentoRestClient, MagentoApiException } from '../client/magentoRest';
+import { BulkExecutor } from '../client/bulkExecutor';
+import { McpConfig } from '../config';
+import { ProfileRegistry } from '../config/profiles';
+import { IdempotencyLedger } from '../session/idempotencyLedger';
+
+export type ActionOutcome =
+  | { ok: true; result: unknown }
+  | { ok: false; error: ActionError };
+
+/** Transport-provided hooks for a single call */
+export interface ExecuteOptions {
+  signal?: AbortSignal;
+  reportProgress?: ActionContext['reportProgress'];
+}
+
+export class ActionPipeline {
+  // One token re-acquisition in flight per session, shared by concurrent bulk workers
+  private tokenRefreshes = new Map<string, Promise<string>>();
+  private profileGuardrails = new Map<string, Guardrails>();
+  // Writes still running under an idempotency key, so a concurrent repeat waits instead of re-applying
+  private idempotentCalls = new Map<string, { requestHash: string; result: Promise<unknown> }>();
+
+  constructor(
+    private sessionStore: SessionStore,
+    private auditLogger: AuditLogger,
+    private guardrails: Guardrails,
+    private config: McpConfig,
+    private bulkExecutor: BulkExecutor,
+    private profiles: ProfileRegistry,
+    private idempotencyLedger: IdempotencyLedger,
+  ) {}
+
+  /**
+   * Run an action for the given session. Never throws — failures are
+   * returned as an error outcome and audited.
+   */
+  async execute(
+    action: ActionDefinition,
+    params: Record<string, unknown>,
+    sessionId: string,
+    options: ExecuteOptions = {},
+  ): Promise<ActionOutcome> {
+    const config = this.profiles.configFor(this.sessionStore.getProfile(sessionId));
+    const dryRun = action.writes && (config.dryRun || params['dry_run'] === true);
+    const context = this.buildContext(sessionId, { ...options, dryRun });
+
+    try {
+      // 0. Policy (a profile may be read-only even when the server is not)
+      context.guardrails.enforceActionAllowed(action);
+
+      // 1. Auth
+      if (action.requiresAuth && !this.sessionStore.getToken(sessionId)) {
+        throw new GuardrailError(
+          ErrorCodes.NOT_AUTHENTICATED,
+          'Not authenticated. Call auth.login first.',
+        );
+      }
+
+      // 2. Confirmation
+      if (requiresConfirmation(action)) {
+        context.guardrails.requireConfirmation(action.riskTier, params);
+      }
+
+      // 3. Validation — after policy, auth and confirmation, so a refused call gets the refusal's code
+      const validated = action.inputSchema.parse(params) as Record<string, unknown>;
+
+      // 4. Execution (dry runs neither replay nor record idempotency keys)
+      const idempotencyKey = action.writes && !context.dryRun ? validated['idempotency_key'] : undefined;
+      let result = typeof idempotencyKey === 'string' && idempotencyKey.length > 0
+        ? await this.executeIdempotent(action, validated, context, idempotencyKey)
+        : await action.handler(validated, context);
+      if (context.dryRun) {
+        result = {
+          dry_run: true,
+          message: `Dry run: ${context.intendedRequests.length} write request(s) recorded, none sent.`,
+          intended_requests: context.intendedRequests,
+          simulated_result: result,
+        };
+      }
+
+      // 5. Audit
+      this.audit(action, params, context, summarizeResult(result), context.dryRun ? 'dry_run' : 'success');
+      return { ok: true, result };
+    } catch (err) {
+      const error = toActionError(err);
+      this.audit(action, params, context, `ERROR: ${error.code}: ${error.message}`, 'error');
+      return { ok: false, error };
+    }
+  }
+
+  /**
+   * Build the per-call context handed to action handlers.
+   */
+  buildContext(sessionId: string, options: ExecuteOptions & { dryRun?: boolean } = {}): ActionContext {
+    const sessionStore = this.sessionStore;
+    const bulkExecutor = this.bulkExecutor;
+    const signal = options.signal ?? new AbortController().signal;
+    const reportProgress: ActionContext['reportProgress'] = options.reportProgress ?? (async () => {});
+    const dryRun = options.dryRun ?? false;
+    const intendedRequests: ActionContext['intendedRequests'] = [];
+    const affected: ActionContext['affected'] = {};
+    const bulkRuns: ActionContext['bulkRuns'] = [];
+    const profile = sessionStore.getProfile(sessionId);
+    const config = this.profiles.configFor(profile);
+    return {
+      sessionId,
+      getToken: () => sessionStore.getToken(sessionId),
+      getBaseUrl: () => sessionStore.getBaseUrl(sessionId),
+      getDefaultScope: () => sessionStore.getDefaultScope(sessionId),
+      getOAuthCredentials: () => sessionStore.getOAuthCredentials(sessionId),
+      getClient: () => {
+        const baseUrl = sessionStore.getBaseUrl(sessionId);
+        const token = sessionStore.getToken(sessionId);
+        if (!baseUrl) {
+          throw new GuardrailError(ErrorCodes.NOT_AUTHENTICATED, 'No active session. Call auth.login first.');
+        }
+        const client = new MagentoRestClient(baseUrl, token, config);
+        const oauth = sessionStore.getOAuthCredentials(sessionId);
+        if (oauth) client.setOAuth(oauth);
+        if (sessionStore.getAdminCredentials(sessionId)) {
+          client.setTokenRefresher((staleToken) => this.refreshAdminToken(sessionId, staleToken));
+        }
+        if (dryRun) client.setDryRun(intendedRequests);
+        client.setAbortSignal(signal);
+        client.setThrottleListener(() => bulkExecutor.throttle(baseUrl));
+        return client;
+      },
+      // Resolved lazily so that auth.login is audited under the user it logged in
+      get username() {
+        return sessionStore.getUsername(sessionId);
+      },
+      get identityVerified() {
+        return sessionStore.isIdentityVerified(sessionId);
+      },
+      get profile() {
+        return sessionStore.getProfile(sessionId);
+      },
+      config,
+      guardrails: this.guardrailsFor(profile),
+      signal,
+      reportProgress,
+      runBulk: async (items, keyOf, task) => {
+        const run = await bulkExecutor.run(sessionStore.getBaseUrl(sessionId) ?? '', items, keyOf, task, {
+          signal,
+          onProgress: (processed, total, errorCount) =>
+            reportProgress(processed, total, `${processed}/${total} items processed, ${errorCount} errors`),
+        });
+        bulkRuns.push(run);
+        return run;
+      },
+      dryRun,
+      intendedRequests,
+      affected,
+      recordAffected: (targets) => mergeTargets(affected, targets),
+      bulkRuns,
+    };
+  }
+
+  /**
+   * Run a write under an idempotency key. The first call's full result is
+   * recorded with a hash of the request; a repeat with the same request
+   * gets that result back, one with a different request is rejected.
+   */
+  private async executeIdempotent(
+    action: ActionDefinition,
+    validated: Record<string, unknown>,
+    context: ActionContext,
+    key: string,
+  ): Promise<unknown> {
+    const requestHash = hashRequest(action.name, context, validated);
+
+    const existing = this.idempotencyLedger.get(key);
+    if (existing) {
+      if (existing.action !== action.name || (existing.request_hash && existing.request_hash !== requestHash)) {
+        throw idempotencyConflict(key, existing.action, existing.created_at);
+      }
+      return replayResult(existing);
+    }
+
+    const running = this.idempotentCalls.get(key);
+    if (running) {
+      if (running.requestHash !== requestHash) {
+        throw idempotencyConflict(key, action.name, null);
+      }
+      const result = await running.result;
+      return replayResult(this.idempotencyLedger.get(key) ?? { created_at: new Date().toISOString(), result, result_summary: '' });
+    }
+
+    const result = action.handler(validated, context);
+    this.idempotentCalls.set(key, { requestHash, result });
+    try {
+      const resolved = await result;
+      this.idempotencyLedger.record(key, action.name, requestHash, resolved, summarizeResult(resolved));
+      return resolved;
+    } finally {
+      this.idempotentCalls.delete(key);
+    }
+  }
+
+  private guardrailsFor(profile: string | null): Guardrails {
+    if (!profile || !this.profiles.get(profile)) return this.guardrails;
+    let guardrails = this.profileGuardrails.get(profile);
+    if (!guardrails) {
+      guardrails = new Guardrails(this.profiles.configFor(profile));
+      this.profileGuardrails.set(profile, guardrails);
+    }
+    return guardrails;
+  }
+
+  /**
+   * Log in again with the session's admin credentials after its token
+   * expired. Callers holding a token that was already replaced get the
+   * current one without another login.
+   */
+  private refreshAdminToken(sessionId: string, staleToken: string): Promise<string> {
+    const current = this.sessionStore.getToken(sessionId);
+    if (current && current !== staleToken) return Promise.resolve(current);
+
+    let pending = this.tokenRefreshes.get(sessionId);
+    if (!pending) {
+      pending = (async () => {
+        const baseUrl = this.sessionStore.getBaseUrl(sessionId);
+        const credentials = this.sessionStore.getAdminCredentials(sessionId);
+        if (!baseUrl || !credentials) {
+          throw new GuardrailError(ErrorCodes.NOT_AUTHENTICATED, 'Session expired. Call auth.login again.');
+        }
+        try {
+          const token = await new MagentoRestClient(baseUrl, null, this.config)
+            .getAdminToken(credentials.username, credentials.password);
+          this.sessionStore.replaceToken(sessionId, token);
+          return token;
+        } catch (err) {
+          throw new GuardrailError(
+            ErrorCodes.NOT_AUTHENTICATED,
+            `Admin token expired and could not be re-acquired: ${(err instanceof Error ? err.message : String(err)).replace(/\.+$/, '')}. Call auth.login again.`,
+          );
+        }
+      })().finally(() => this.tokenRefreshes.delete(sessionId));
+      this.tokenRefreshes.set(sessionId, pending);
+    }
+    return pending;
+  }
+
+  private audit(
+    action: ActionDefinition,
+    params: Record<string, unknown>,
+    context: ActionContext,
+    resultSummary: string,
+    status: AuditStatus,
+  ): void {
+    const affected = { ...context.affected };
+    mergeTargets(affected, targetsFromParams(params));
+    const auditRecord: AuditRecord = {
+      timestamp: new Date().toISOString(),
+      username: context.username,
+      profile: context.profile,
+      environment: this.profiles.configFor(context.profile).defaultEnvironment,
+      action: action.name,
+      scope: (params['scope'] as AuditRecord['scope']) ?? context.getDefaultScope(),
+      params,
+      result_summary: resultSummary,
+      // Raw call arguments: a call rejected by validation may carry any type here
+      plan_id: typeof params['plan_id'] === 'string' && params['plan_id'] ? params['plan_id'] : null,
+      reason: typeof params['reason'] === 'string' && params['reason'] ? params['reason'] : null,
+      status,
+      affected: hasTargets(affected) ? affected : undefined,
+      bulk: bulkOutcome(context.bulkRuns),
+    };
+    this.auditLogger.log(auditRecord);
+  }
+}
+
+// Parameters that describe how a call is made rather than what it changes
+const IDEMPOTENCY_IGNORED_PARAMS = ['idempotency_key', 'confirm', 'reason', 'dry_run'];
+
+/**
+ * Hash what a write changes: the action, the Magento instance and user it
+ * runs as, and its parameters. A key reused by another user is a conflict,
+ * never a replay of their result.
+ */
+function hashRequest(actionName: string, context: ActionContext, params: Record<string, unknown>): string {
+  const relevant = Object.fromEntries(
+    Object.entries(params).filter(([name]) => !IDEMPOTENCY_IGNORED_PARAMS.includes(name)),
+  );
+  const request = { action: actionName, base_url: context.getBaseUrl(), username: context.username, params: relevant };
+  return crypto.createHash('sha256').update(canonicalJson(request)).digest('hex');
+}
+
+/** JSON with object keys sorted, so key order in the call does not change the hash */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function replayResult(entry: Pick<IdempotencyEntry, 'created_at' | 'result' | 'result_summary'>): Record<string, unknown> {
+  return {
+    message: 'Operation already completed (idempotency match)',
+    completed_at: entry.created_at,
+    // Entries recorded before full results were kept only have the summary
+    previous_result: entry.result ?? entry.result_summary,
+  };
+}
+
+function idempotencyConflict(key: string, action: string, usedAt: string | null): GuardrailError {
+  return new GuardrailError(
+    ErrorCodes.IDEMPOTENCY_CONFLICT,
+    `Idempotency key "${key}" was already used for a different request${usedAt ? ` (${action} at ${usedAt})` : ''}. Use a new key for a new request.`,
+    { idempotency_key: key, action, used_at: usedAt ?? undefined },
+  );
+}
+
+/** Combined per-item outcome of a call's bulk runs, undefined if it made none */
+function bulkOutcome(runs: ActionContext['bulkRuns']): AuditBulkOutcome | undefined {
+  if (runs.length === 0) return undefined;
+  return {
+    applied: runs.flatMap((run) => run.applied),
+    failed: runs.flatMap((run) => run.errors.map((e) => e.item)),
+    not_applied: runs.flatMap((run) => run.not_attempted),
+    cancelled: runs.some((run) => run.cancelled),
+  };
+}
+
+/**
+ * Tier 2+ actions require confirm/reason unless they opt out (prepare steps).
+ */
+export function requiresConfirmation(action: ActionDefinition): boolean {
+  return action.requiresConfirmation ?? action.riskTier >= RiskTier.Risk;
+}
+
+/**
+ * Map any thrown value to a structured error from the ErrorCodes table.
+ */
+export function toActionError(err: unknown): ActionError {
+  if (err instanceof ZodError) {
+    return {
+      code: ErrorCodes.VALIDATION_ERROR,
+      message: 'Validation error',
+      details: err.errors,
+    };
+  }
+
+  if (err instanceof GuardrailError) {
+    return {
+      code: err.code,
+      message: err.message,
+      details: err.details,
+    };
+  }
+
+  if (err instanceof MagentoApiException) {
+    return {
+      code: ErrorCodes.MAGENTO_API_ERROR,
+      message: err.message,
+      details: { statusCode: err.statusCode, parameters: err.parameters },
+    };
+  }
+
+  return {
+    code: ErrorCodes.INTERNAL_ERROR,
+    message: err instanceof Error ? err.message : String(err),
+  };
+}
+
+export function summarizeResult(result: unknown): string {
+  if (result === null || result === undefined) return 'null';
+  if (typeof result === 'object') {
+    const obj = result as Record<string, unknown>;
+    if (obj['message']) return String(obj['message']);
+    if (obj['total_count'] !== undefined) return `total_count: ${obj['total_count']}`;
+    return `object with keys: ${Object.keys(obj).join(', ')}`;
+  }
+  return String(result);
+}
@@ -0,0 +1,161 @@
+/**
+ * Streamable HTTP transport for hosting one shared Magento MCP instance.
+ *
+ * Every client that sends an `initialize` request gets its own MCP session
+ * (and therefore its own SessionStore entry and default scope).
+ * Requests must carry `Authorization: Bearer <token>` when a token is configured.
+ *
+ * A session idle for longer than MCP_HTTP_SESSION_IDLE_MINUTES is closed,
+ * which also forgets its Magento token and admin credentials; the number of
+ * concurrent sessions is capped at MCP_HTTP_MAX_SESSIONS.
+ */
+
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { McpConfig } from '../config';
+
+const MCP_PATH = '/mcp';
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+/** Upper bound on how often idle sessions are looked for */
+const IDLE_SWEEP_INTERVAL_MS = 60_000;
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+  /** Calls still being handled; a session is never idle while > 0. The client's standing GET stream does not count. */
+  active: number;
+}
+
+export interface HttpServerHooks {
+  /** Build a fresh MCP server for a new client session */
+  createServer: () => McpServer;
+  /** Called when a client session ends (DELETE, transport close or idle timeout) */
+  onSessionClosed: (sessionId: string) => void;
+}
+
+export function startHttpServer(config: McpConfig, hooks: HttpServerHooks): Promise<http.Server> {
+  const isLoopback = LOOPBACK_HOSTS.includes(config.httpHost);
+  if (!isLoopback && !config.httpAuthToken) {
+    throw new Error(
+      `Refusing to bind the HTTP transport to ${config.httpHost} without MCP_HTTP_TOKEN. Set a token or bind to 127.0.0.1.`,
+    );
+  }
+
+  const sessions = new Map<string, HttpSession>();
+  const idleMs = config.httpSessionIdleMinutes * 60_000;
+
+  const server = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if (url.pathname !== MCP_PATH) {
+        sendJsonError(res, 404, 'Not found');
+        return;
+      }
+
+      if (!isAuthorized(req, config.httpAuthToken)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendJsonError(res, 401, 'Missing or invalid bearer token');
+        return;
+      }
+
+      const sessionHeader = req.headers['mcp-session-id'];
+      const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+
+      const session = sessionId ? sessions.get(sessionId) : undefined;
+      if (sessionId && !session) {
+        sendJsonError(res, 404, 'Unknown or expired MCP session');
+        return;
+      }
+
+      if (session) {
+        session.lastActivity = Date.now();
+        if (req.method !== 'GET') {
+          session.active++;
+          res.once('close', () => {
+            session.active--;
+            session.lastActivity = Date.now();
+          });
+        }
+        await session.transport.handleRequest(req, res);
+        return;
+      }
+
+      if (sessions.size >= config.httpMaxSessions) {
+        sendJsonError(res, 503, `Too many MCP sessions (limit ${config.httpMaxSessions}); close an existing session or try again later`);
+        return;
+      }
+
+      // No session yet — the transport rejects anything but an initialize request
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => crypto.randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, { transport: newTransport, lastActivity: Date.now(), active: 0 });
+        },
+        enableDnsRebindingProtection: isLoopback,
+        allowedHosts: isLoopback
+          ? LOOPBACK_HOSTS.map((h) => `${h.includes(':') ? `[${h}]` : h}:${config.httpPort}`)
+          : undefined,
+      });
+      newTransport.onclose = () => {
+        const id = newTransport.sessionId;
+        if (id && sessions.delete(id)) {
+          hooks.onSessionClosed(id);
+        }
+      };
+      await hooks.createServer().connect(newTransport);
+      await newTransport.handleRequest(req, res);
+      // Rejected before a session was initialized: no later request can reach
+      // this server, so close it instead of leaving it (and its plan listener) behind
+      if (newTransport.sessionId === undefined) {
+        await newTransport.close();
+      }
+    } catch (err) {
+      process.stderr.write(`HTTP transport error: ${err instanceof Error ? err.message : String(err)}\n`);
+      if (!res.headersSent) {
+        sendJsonError(res, 500, 'Internal server error');
+      }
+    }
+  });
+
+  if (idleMs > 0) {
+    const sweep = setInterval(() => {
+      const cutoff = Date.now() - idleMs;
+      for (const [id, session] of sessions) {
+        if (session.active === 0 && session.lastActivity < cutoff) {
+          process.stderr.write(`Closing MCP session ${id} after ${config.httpSessionIdleMinutes} idle minutes\n`);
+          // onclose removes the session and destroys its SessionStore entry
+          session.transport.close().catch(() => {});
+        }
+      }
+    }, Math.min(IDLE_SWEEP_INTERVAL_MS, idleMs));
+    sweep.unref();
+    server.once('close', () => clearInterval(sweep));
+  }
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(config.httpPort, config.httpHost, () => {
+      server.off('error', reject);
+      resolve(server);
+    });
+  });
+}
+
+function isAuthorized(req: http.IncomingMessage, expectedToken: string | null): boolean {
+  if (!expectedToken) return true;
+  const header = req.headers['authorization'] ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+
+  // Constant-time comparison of the token digests
+  const given = crypto.createHash('sha256').update(match[1]).digest();
+  const expected = crypto.createHash('sha256').update(expectedToken).digest();
+  return crypto.timingSafeEqual(given, expected);
+}
+
+function sendJsonError(res: http.ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
@@ -0,0 +1,117 @@
+/**
+ * MCP prompts for common merchandising workflows.
+ *
+ * Each prompt expands into step-by-step instructions that walk the model
+ * through the existing tools in the right order, including the plan review
+ * and the confirm/reason fields Tier 2 commits require.
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+export function registerPrompts(mcpServer: McpServer): void {
+  // ── Diagnose Product Visibility ───────────────────────────────────────
+  mcpServer.registerPrompt(
+    'diagnose_product_visibility',
+    {
+      title: 'Diagnose and fix product visibility',
+      description: 'Find out why a SKU is not visible on the storefront and fix it through a reviewed plan.',
+      argsSchema: {
+        sku: z.string().describe('SKU that is not showing on the storefront'),
+        store_view_code: z.string().optional().describe('Store view to check (defaults to the session scope)'),
+      },
+    },
+    ({ sku, store_view_code }) => {
+      const storeView = store_view_code ?? '<the affected store view>';
+      return userPrompt(`SKU ${sku} is not visible on the storefront${store_view_code ? ` for store view "${store_view_code}"` : ''}. Diagnose and fix it:
+
+1. Call diagnostics_product_display_check with { "sku": "${sku}"${store_view_code ? `, "store_view_code": "${store_view_code}"` : ''} } and summarise every issue it reports.
+2. If stock looks wrong, call diagnostics_inventory_salable_report for the same SKU. Inventory and website assignment cannot be fixed with these tools — tell me what to change in the Magento Admin instead.
+3. For status, visibility or category issues, call catalog_prepare_bulk_update with { "match": { "sku_list": ["${sku}"] }, "updates": { ... }, "scope": { "store_view_code": "${storeView}" } }. Use status = 1 to enable and visibility = 4 for "Catalog, Search".
+   For a missing or zero price, call pricing_prepare_bulk_price_update instead.
+4. Show me the plan's sample_diffs and warnings and WAIT for my approval. Do not commit on your own.
+5. Once I approve, call the matching commit tool (catalog_commit_bulk_update or pricing_commit_bulk_price_update) with the plan_id, "confirm": true and a "reason" that names the SKU and the issue fixed.
+6. Finally call cache_purge_product for the SKU (again with "confirm": true and a "reason") and re-run diagnostics_product_display_check to confirm the issues are gone.`);
+    },
+  );
+
+  // ── Weekend Promotion ─────────────────────────────────────────────────
+  mcpServer.registerPrompt(
+    'weekend_promotion',
+    {
+      title: 'Run a percentage-off promotion with coupons',
+      description: 'Create a time-boxed percent-off cart price rule, generate coupons for it and enable it.',
+      argsSchema: {
+        name: z.string().describe('Rule name, e.g. "Weekend 20% off"'),
+        discount_percent: z.string().describe('Percent discount, e.g. "20"'),
+        from_date: z.string().describe('Start date (YYYY-MM-DD)'),
+        to_date: z.string().describe('End date (YYYY-MM-DD)'),
+        coupon_qty: z.string().describe('Number of coupon codes to generate'),
+        website_ids: z.string().optional().describe('Comma-separated website IDs (default "1")'),
+        customer_group_ids: z.string().optional().describe('Comma-separated customer group IDs (default "0,1")'),
+      },
+    },
+    ({ name, discount_percent, from_date, to_date, coupon_qty, website_ids, customer_group_ids }) => {
+      const websites = toIdList(website_ids ?? '1');
+      const groups = toIdList(customer_group_ids ?? '0,1');
+      return userPrompt(`Set up the promotion "${name}": ${discount_percent}% off from ${from_date} to ${to_date}, with ${coupon_qty} coupon codes.
+
+1. Call promotions_search_rules with { "query": "${name}" } and warn me if a rule with a similar name already exists.
+2. Call promotions_prepare_cart_price_rule_create with:
+   { "name": "${name}", "simple_action": "by_percent", "discount_amount": ${Number(discount_percent)}, "from_date": "${from_date}", "to_date": "${to_date}", "website_ids": [${websites}], "customer_group_ids": [${groups}], "coupon_type": "auto", "is_active": false }
+   Keep is_active false so the rule is not live before the coupons exist.
+3. Show me the rule_preview and warnings and WAIT for my approval.
+4. After I approve, call promotions_commit_cart_price_rule_create with the plan_id, "confirm": true and a "reason" describing the promotion. Note the new rule_id.
+5. Call promotions_generate_coupons with { "rule_id": <rule_id>, "qty": ${Number(coupon_qty)}, "confirm": true, "reason": "..." }.
+6. Call promotions_export_coupons for the rule and give me the CSV.
+7. Ask me before going live. When I confirm, call promotions_enable_rule with the rule_id, "confirm": true and a "reason".`);
+    },
+  );
+
+  // ── Rename Category URL Keys ──────────────────────────────────────────
+  mcpServer.registerPrompt(
+    'rename_category_url_keys',
+    {
+      title: 'Rename URL keys for a category',
+      description: 'Change the URL keys of every product in a category through a collision-checked plan.',
+      argsSchema: {
+        category_id: z.string().describe('Category ID whose products should be renamed'),
+        store_view_code: z.string().describe('Store view the URL keys apply to'),
+        prefix: z.string().optional().describe('Text to prepend to each URL key'),
+        suffix: z.string().optional().describe('Text to append to each URL key'),
+        search: z.string().optional().describe('Text to replace in each URL key'),
+        replacement: z.string().optional().describe('Replacement for the search text'),
+      },
+    },
+    ({ category_id, store_view_code, prefix, suffix, search, replacement }) => {
+      const transform: Record<string, unknown> = {};
+      if (prefix) transform['prefix'] = prefix;
+      if (suffix) transform['suffix'] = suffix;
+      if (search) transform['replace'] = { search, replacement: replacement ?? '' };
+      return userPrompt(`Rename the URL keys of all products in category ${category_id} for store view "${store_view_code}".
+
+1. Call seo_prepare_bulk_update_url_keys with:
+   { "match": { "category_id": ${Number(category_id)} }, "url_key_transform": ${JSON.stringify(transform)}, "scope": { "store_view_code": "${store_view_code}" } }
+2. Show me the affected_count, a sample of url_key_changes and every collision. If there are collisions, stop and propose a different transform instead of committing.
+3. WAIT for my approval.
+4. After I approve, call seo_commit_bulk_update_url_keys with the plan_id, "confirm": true and a "reason" naming the category.
+5. Report the success and error counts, then call seo_report_redirect_chains and flag any new chains longer than two hops.`);
+    },
+  );
+}
+
+function userPrompt(text: string): GetPromptResult {
+  return {
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
+
+function toIdList(csv: string): string {
+  return csv
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean)
+    .map(Number)
+    .join(', ');
+}
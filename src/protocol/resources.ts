@@ -0,0 +1,162 @@
+/**
+ * MCP resources: read-only context the model can pull in without tool calls.
+ *
+ * - magento://audit/recent      — most recent audit records of the logged-in user
+ * - magento://plans/{plan_id}   — pending two-phase commit plans of the logged-in user and profile
+ * - magento://scope/topology    — websites, store groups and store views
+ *
+ * Clients may subscribe to plan URIs (and the plan list) and are notified when
+ * a plan is created, committed, expires or is cancelled.
+ */
+
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  ReadResourceResult,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ActionDefinition, ErrorCodes } from './types';
+import { ActionPipeline } from './actionPipeline';
+import { AuditLogger } from '../audit/auditLogger';
+import { visibleTo } from '../audit/auditQuery';
+import { PlanStore } from '../session/planStore';
+import { DEFAULT_SESSION_ID } from '../session/sessionStore';
+import { GuardrailError } from '../validation/guardrails';
+
+const AUDIT_RECENT_URI = 'magento://audit/recent';
+const SCOPE_TOPOLOGY_URI = 'magento://scope/topology';
+const PLAN_URI_PREFIX = 'magento://plans/';
+const AUDIT_RECENT_COUNT = 50;
+
+export interface ResourceDependencies {
+  actions: ActionDefinition[];
+  pipeline: ActionPipeline;
+  planStore: PlanStore;
+  auditLogger: AuditLogger;
+}
+
+/**
+ * Register all resources on a per-session MCP server.
+ */
+export function registerResources(mcpServer: McpServer, deps: ResourceDependencies): void {
+  const { actions, pipeline, planStore, auditLogger } = deps;
+
+  mcpServer.registerResource(
+    'audit-recent',
+    AUDIT_RECENT_URI,
+    {
+      title: 'Recent audit records',
+      description: `The last ${AUDIT_RECENT_COUNT} actions of the logged-in user (of every user for audit admins), newest last.`,
+      mimeType: 'application/json',
+    },
+    async (uri, extra) => {
+      const context = pipeline.buildContext(extra.sessionId ?? DEFAULT_SESSION_ID);
+      if (!context.getToken()) {
+        throw new GuardrailError(ErrorCodes.NOT_AUTHENTICATED, 'No active session. Call auth.login first.');
+      }
+      const recent = await auditLogger.readRecent(AUDIT_RECENT_COUNT, visibleTo(context.username, context.identityVerified, context.config.auditAdminUsers));
+      return jsonResource(uri.href, {
+        records: recent.records,
+        unreadable_lines: recent.unreadable > 0 ? recent.unreadable : undefined,
+      });
+    },
+  );
+
+  mcpServer.registerResource(
+    'scope-topology',
+    SCOPE_TOPOLOGY_URI,
+    {
+      title: 'Store topology',
+      description: 'Websites, store groups, store views and store configs of the connected Magento instance.',
+      mimeType: 'application/json',
+    },
+    async (uri, extra) => {
+      // Reuse the tool so the read goes through auth and audit like any other call
+      const action = actions.find((a) => a.name === 'scope.list_websites_stores');
+      if (!action) {
+        throw new GuardrailError(ErrorCodes.ACTION_NOT_FOUND, 'scope.list_websites_stores is not available.');
+      }
+      const outcome = await pipeline.execute(action, {}, extra.sessionId ?? DEFAULT_SESSION_ID, { signal: extra.signal });
+      if (!outcome.ok) {
+        throw new GuardrailError(outcome.error.code, outcome.error.message, outcome.error.details);
+      }
+      return jsonResource(uri.href, outcome.result);
+    },
+  );
+
+  mcpServer.registerResource(
+    'plan',
+    new ResourceTemplate(`${PLAN_URI_PREFIX}{plan_id}`, {
+      list: async (extra) => ({
+        resources: planStore.list(extra.sessionId ?? DEFAULT_SESSION_ID).map((plan) => ({
+          uri: `${PLAN_URI_PREFIX}${plan.plan_id}`,
+          name: `${plan.action} (${plan.affected_count} items)`,
+          description: `Expires ${plan.expires_at}`,
+          mimeType: 'application/json',
+        })),
+      }),
+    }),
+    {
+      title: 'Pending plan',
+      description: 'A prepared two-phase commit plan awaiting commit.',
+      mimeType: 'application/json',
+    },
+    async (uri, variables, extra) => {
+      const planId = String(variables['plan_id']);
+      const plan = planStore.get(planId, extra.sessionId ?? DEFAULT_SESSION_ID);
+      if (!plan) {
+        throw new GuardrailError(ErrorCodes.PLAN_NOT_FOUND, `Plan ${planId} not found or expired.`);
+      }
+      return jsonResource(uri.href, plan);
+    },
+  );
+
+  enablePlanSubscriptions(mcpServer, planStore);
+}
+
+/**
+ * Handle resources/subscribe for plan URIs and forward PlanStore events for
+ * plans this session owns as resource update / list-changed notifications.
+ */
+function enablePlanSubscriptions(mcpServer: McpServer, planStore: PlanStore): void {
+  const server = mcpServer.server;
+  const subscriptions = new Set<string>();
+
+  server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const unsubscribe = planStore.subscribe((_type, plan) => {
+    if (!mcpServer.isConnected()) return;
+    // HTTP transports carry their MCP session ID; stdio has a single session.
+    // Every session that owns the plan hears of it, not only the one that prepared it.
+    const sessionId = server.transport?.sessionId ?? DEFAULT_SESSION_ID;
+    if (!planStore.isOwnedBy(plan, sessionId)) return;
+
+    const uri = `${PLAN_URI_PREFIX}${plan.plan_id}`;
+    if (subscriptions.has(uri)) {
+      server.sendResourceUpdated({ uri }).catch(() => {});
+    }
+    mcpServer.sendResourceListChanged();
+  });
+
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    unsubscribe();
+    previousOnClose?.();
+  };
+}
+
+function jsonResource(uri: string, data: unknown): ReadResourceResult {
+  return {
+    contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }],
+  };
+}
@@ -1,7 +1,7 @@
 /**
  * stdio JSON-RPC-like server for Magento MCP.
- * Reads newline-delimited JSON from stdin, dispatches to action handlers,
- * writes JSON responses to stdout.
+ * Reads newline-delimited JSON from stdin, dispatches to action handlers via the
+ * shared ActionPipeline, writes JSON responses to stdout.
  */
 
 import * as readline from 'readline';
@@ -10,27 +10,17 @@ import {
   McpResponse,
   McpErrorResponse,
   ActionDefinition,
-  ActionContext,
   ErrorCodes,
   RiskTier,
-  AuditRecord,
 } from './types';
-import { SessionStore } from '../session/sessionStore';
-import { AuditLogger } from '../audit/auditLogger';
-import { Guardrails } from '../validation/guardrails';
-import { ZodError } from 'zod';
-import { MagentoApiException } from '../client/magentoRest';
-import { GuardrailError } from '../validation/guardrails';
+import { ActionPipeline } from './actionPipeline';
+import { DEFAULT_SESSION_ID } from '../session/sessionStore';
 
 export class StdioServer {
   private actionRegistry = new Map<string, ActionDefinition>();
-  private sessionId: string = 'default';
+  private sessionId: string = DEFAULT_SESSION_ID;
 
-  constructor(
-    private sessionStore: SessionStore,
-    private auditLogger: AuditLogger,
-    private guardrails: Guardrails,
-  ) {}
+  constructor(private pipeline: ActionPipeline) {}
 
   /**
    * Register an action handler.
@@ -112,153 +102,17 @@ export class StdioServer {
       };
     }
 
-    // Check authentication
-    if (action.requiresAuth) {
-      const token = this.sessionStore.getToken(this.sessionId);
-      if (!token) {
-        return {
-          id,
-          status: 'error',
-          error: {
-            code: ErrorCodes.NOT_AUTHENTICATED,
-            message: 'Not authenticated. Call auth.login first.',
-          },
-        };
-      }
-    }
-
-    // Check Tier 2+ confirmation if required
-    if (action.riskTier >= RiskTier.Risk) {
-      try {
-        this.guardrails.requireConfirmation(action.riskTier, params);
-      } catch (err) {
-        if (err instanceof GuardrailError) {
-          return {
-            id,
-            status: 'error',
-            error: {
-              code: err.code,
-              message: err.message,
-              details: err.details,
-            },
-          };
-        }
-      }
-    }
-
-    // Build action context
-    const context: ActionContext = {
-      sessionId: this.sessionId,
-      getToken: () => this.sessionStore.getToken(this.sessionId),
-      getBaseUrl: () => this.sessionStore.getBaseUrl(this.sessionId),
-      getDefaultScope: () => this.sessionStore.getDefaultScope(this.sessionId),
-      getOAuthCredentials: () => this.sessionStore.getOAuthCredentials(this.sessionId),
-      getClient: () => { throw new Error('getClient not available in legacy stdio server'); },
-      username: this.sessionStore.getUsername(this.sessionId),
-    };
-
-    // Execute the handler
-    try {
-      const result = await action.handler(params, context);
-
-      // Audit log
-      const auditRecord: AuditRecord = {
-        timestamp: new Date().toISOString(),
-        username: context.username,
-        action: actionName,
-        scope: context.getDefaultScope(),
-        params,
-        result_summary: this.summarizeResult(result),
-        plan_id: (params['plan_id'] as string) || null,
-        reason: (params['reason'] as string) || null,
-      };
-      this.auditLogger.log(auditRecord);
-
-      return {
-        id,
-        status: 'success',
-        result,
-      };
-    } catch (err) {
-      return this.handleError(id, actionName, err);
-    }
-  }
-
-  private handleError(id: string, actionName: string, err: unknown): McpResponse {
-    // Audit the error too
-    const auditRecord: AuditRecord = {
-      timestamp: new Date().toISOString(),
-      username: null,
-      action: actionName,
-      scope: null,
-      params: {},
-      result_summary: `ERROR: ${err instanceof Error ? err.message : String(err)}`,
-      plan_id: null,
-      reason: null,
-    };
-    this.auditLogger.log(auditRecord);
-
-    if (err instanceof ZodError) {
-      return {
-        id,
-        status: 'error',
-        error: {
-          code: ErrorCodes.VALIDATION_ERROR,
-          message: 'Validation error',
-          details: err.errors,
-        },
-      };
-    }
-
-    if (err instanceof GuardrailError) {
-      return {
-        id,
-        status: 'error',
-        error: {
-          code: err.code,
-          message: err.message,
-          details: err.details,
-        },
-      };
+    const outcome = await this.pipeline.execute(action, params ?? {}, this.sessionId);
+    if (!outcome.ok) {
+      return { id, status: 'error', error: outcome.error };
     }
-
-    if (err instanceof MagentoApiException) {
-      return {
-        id,
-        status: 'error',
-        error: {
-          code: ErrorCodes.MAGENTO_API_ERROR,
-          message: err.message,
-          details: { statusCode: err.statusCode, parameters: err.parameters },
-        },
-      };
-    }
-
-    return {
-      id,
-      status: 'error',
-      error: {
-        code: ErrorCodes.INTERNAL_ERROR,
-        message: err instanceof Error ? err.message : String(err),
-      },
-    };
+    return { id, status: 'success', result: outcome.result };
   }
 
   private writeResponse(response: McpResponse): void {
     process.stdout.write(JSON.stringify(response) + '\n');
   }
 
-  private summarizeResult(result: unknown): string {
-    if (result === null || result === undefined) return 'null';
-    if (typeof result === 'object') {
-      const obj = result as Record<string, unknown>;
-      if (obj['message']) return String(obj['message']);
-      if (obj['total_count'] !== undefined) return `total_count: ${obj['total_count']}`;
-      return `object with keys: ${Object.keys(obj).join(', ')}`;
-    }
-    return String(result);
-  }
-
   /**
    * Get list of registered actions (for help/discovery).
    */
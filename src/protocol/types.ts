@@ -2,6 +2,8 @@
  * Protocol types for the Magento MCP stdio JSON-RPC-like server.
  */
 
+import type { AnyZodObject } from 'zod';
+
 // ── Risk Tiers ──────────────────────────────────────────────────────────────
 
 export enum RiskTier {
@@ -27,11 +29,13 @@ export interface McpSuccessResponse {
 export interface McpErrorResponse {
   id: string;
   status: 'error';
-  error: {
-    code: string;
-    message: string;
-    details?: unknown;
-  };
+  error: ActionError;
+}
+
+export interface ActionError {
+  code: string;
+  message: string;
+  details?: unknown;
 }
 
 export type McpResponse = McpSuccessResponse | McpErrorResponse;
@@ -46,6 +50,7 @@ export const ErrorCodes = {
   MAGENTO_API_ERROR: 'MAGENTO_API_ERROR',
   PLAN_NOT_FOUND: 'PLAN_NOT_FOUND',
   PLAN_EXPIRED: 'PLAN_EXPIRED',
+  PLAN_DRIFTED: 'PLAN_DRIFTED',
   CONFIRMATION_REQUIRED: 'CONFIRMATION_REQUIRED',
   BULK_CAP_EXCEEDED: 'BULK_CAP_EXCEEDED',
   RATE_LIMITED: 'RATE_LIMITED',
@@ -61,10 +66,17 @@ export type ErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes];
 
 export interface ActionDefinition {
   name: string;
+  /** Human-readable tool title, e.g. "Prepare bulk price update" */
+  title: string;
   description: string;
   riskTier: RiskTier;
   requiresAuth: boolean;
-  inputSchema?: Record<string, unknown>;
+  /** True if the action changes Magento or CDN state (prepare steps and session actions do not) */
+  writes: boolean;
+  /** Require confirm: true and a reason. Defaults to true for Tier 2+; prepare steps opt out. */
+  requiresConfirmation?: boolean;
+  /** Zod schema for params — used both to validate calls and to publish the tool's JSON input schema */
+  inputSchema: AnyZodObject;
   handler: (params: Record<string, unknown>, context: ActionContext) => Promise<unknown>;
 }
 
@@ -78,6 +90,34 @@ export interface ActionContext {
   getOAuthCredentials: () => import('../client/magentoRest').OAuthCredentials | null;
   getClient: () => import('../client/magentoRest').MagentoRestClient;
   username: string | null;
+  /** True when Magento vouched for `username` (admin token login); token and OAuth sessions are all "integration" */
+  identityVerified: boolean;
+  /** Connection profile the session is using, or null after a plain auth.login */
+  profile: string | null;
+  /** Server configuration with the active profile's overrides applied */
+  config: import('../config').McpConfig;
+  /** Guardrails enforcing the active profile's limits */
+  guardrails: import('../validation/guardrails').Guardrails;
+  /** Aborted when the client cancels the request; long-running handlers stop between items */
+  signal: AbortSignal;
+  /** Report progress on long-running work (no-op when the client did not ask for progress) */
+  reportProgress: (progress: number, total: number, message?: string) => Promise<void>;
+  /** Run per-item writes through the shared bulk executor (bounded concurrency, per-instance rate limit) */
+  runBulk: <T>(
+    items: T[],
+    keyOf: (item: T) => string,
+    task: (item: T) => Promise<void>,
+  ) => Promise<import('../client/bulkExecutor').BulkRunResult>;
+  /** True when writes are recorded instead of sent (server-wide MCP_DRY_RUN or dry_run: true) */
+  dryRun: boolean;
+  /** Write requests recorded so far in dry-run mode; clients from getClient() append to it */
+  intendedRequests: import('../client/magentoRest').IntendedRequest[];
+  /** Targets the call wrote to, collected for the audit record */
+  affected: AffectedTargets;
+  /** Add targets to `affected` (e.g. the SKUs a commit wrote) */
+  recordAffected: (targets: AffectedTargets) => void;
+  /** Outcomes of the runBulk calls made so far, for the audit record */
+  bulkRuns: import('../client/bulkExecutor').BulkRunResult[];
 }
 
 // ── Store / Scope ───────────────────────────────────────────────────────────
@@ -91,27 +131,68 @@ export interface StoreScope {
 
 // ── Audit Record ────────────────────────────────────────────────────────────
 
+export type AuditStatus = 'success' | 'error' | 'dry_run';
+
+/** Magento entities an action read or wrote, so the audit trail can be searched by them */
+export interface AffectedTargets {
+  skus?: string[];
+  page_ids?: number[];
+  block_ids?: number[];
+  rule_ids?: number[];
+}
+
+export interface AuditBulkOutcome {
+  applied: string[];
+  failed: string[];
+  /** Never attempted because the call was cancelled */
+  not_applied: string[];
+  cancelled: boolean;
+}
+
 export interface AuditRecord {
   timestamp: string;
   username: string | null;
+  /** Connection profile and its environment tag (null profile = plain auth.login) */
+  profile: string | null;
+  environment: string;
   action: string;
   scope: StoreScope | null;
   params: Record<string, unknown>;
   result_summary: string;
   plan_id: string | null;
   reason: string | null;
+  /** Absent on records written before it was recorded; derive it from result_summary */
+  status?: AuditStatus;
+  affected?: AffectedTargets;
+  /** Per-item outcome of bulk writes; the response to a cancelled call never reaches the client */
+  bulk?: AuditBulkOutcome;
+  /** Hash-chain fields, filled in by AuditLogger when the record is written */
+  seq?: number;
+  prev_hash?: string;
+  hash?: string;
+  hmac?: string;
 }
 
 // ── Plan (for two-phase commit) ─────────────────────────────────────────────
 
 export interface BulkPlan {
   plan_id: string;
+  /** Session that prepared the plan; its only owner unless owner_verified */
+  session_id: string;
+  /** Identity the plan is tied to: only a session logged in as the same user, profile and instance can commit it */
+  username: string | null;
+  profile: string | null;
+  base_url: string | null;
+  /** True when Magento verified the username; otherwise only the preparing session owns the plan */
+  owner_verified?: boolean;
   action: string;
   created_at: string;
   expires_at: string;
   payload: unknown;
   affected_count: number;
   sample_diffs?: unknown[];
+  /** Every per-item diff (plans.get pages through them) */
+  diffs?: unknown[];
   warnings?: string[];
 }
 
@@ -121,5 +202,9 @@ export interface IdempotencyEntry {
   key: string;
   action: string;
   created_at: string;
+  /** Hash of the action, identity and parameters the key was first used with (absent on legacy entries) */
+  request_hash?: string;
   result_summary: string;
+  /** Full result returned by the first call, replayed on repeats */
+  result?: unknown;
 }
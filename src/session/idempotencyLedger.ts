@@ -1,71 +1,221 @@
 /**
- * Idempotency ledger — prevents duplicate commits.
- * Persists to a JSON file for crash recovery.
+ * Idempotency ledger — prevents a repeated write from being applied twice.
+ *
+ * Persisted as a JSON snapshot plus an append-only journal next to it
+ * ("<path>.journal", one entry per line). record() appends a single line;
+ * the journal is folded into the snapshot (written to a temporary file and
+ * renamed into place) every COMPACT_AFTER_ENTRIES records and at startup.
+ * A crash therefore loses at most the entry being written.
+ *
+ * A snapshot or journal that cannot be read is reported at startup and left
+ * untouched: silently starting empty would let retried writes apply twice.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { IdempotencyEntry } from '../protocol/types';
 
+/** Journal entries appended before they are compacted into the snapshot */
+const COMPACT_AFTER_ENTRIES = 200;
+
+export interface IdempotencyRetention {
+  /** Forget entries older than this many hours (0 = keep forever) */
+  ttlHours: number;
+  /** Keep only this many most recent entries (0 = unlimited) */
+  maxEntries: number;
+}
+
 export class IdempotencyLedger {
+  // Insertion order is age order: the oldest entry comes first
   private entries = new Map<string, IdempotencyEntry>();
   private filePath: string;
+  private journalPath: string;
+  private journalEntries = 0;
+  /** Problems repaired while loading, reported in the startup banner */
+  readonly recoveryNotes: string[] = [];
 
-  constructor(filePath: string) {
+  constructor(
+    filePath: string,
+    private retention: IdempotencyRetention = { ttlHours: 0, maxEntries: 0 },
+  ) {
     this.filePath = path.resolve(filePath);
+    this.journalPath = `${this.filePath}.journal`;
     this.load();
   }
 
+  get size(): number {
+    return this.entries.size;
+  }
+
   /**
    * Check if an idempotency key has already been used.
    */
   has(key: string): boolean {
-    return this.entries.has(key);
+    return this.get(key) !== undefined;
   }
 
   /**
-   * Get an existing entry.
+   * Get an existing entry. Entries past the retention TTL are treated as unused.
    */
   get(key: string): IdempotencyEntry | undefined {
-    return this.entries.get(key);
+    const entry = this.entries.get(key);
+    return entry && !this.isExpired(entry, Date.now()) ? entry : undefined;
   }
 
   /**
    * Record a new idempotency entry.
    */
-  record(key: string, action: string, resultSummary: string): void {
+  record(key: string, action: string, requestHash: string, result: unknown, resultSummary: string): void {
     const entry: IdempotencyEntry = {
       key,
       action,
       created_at: new Date().toISOString(),
+      request_hash: requestHash,
       result_summary: resultSummary,
+      result,
     };
+    this.entries.delete(key);
     this.entries.set(key, entry);
-    this.persist();
+    this.appendToJournal(entry);
+
+    if (this.journalEntries >= COMPACT_AFTER_ENTRIES) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Drop entries outside the retention policy, rewrite the snapshot and
+   * empty the journal.
+   */
+  compact(): void {
+    this.prune();
+    this.ensureDir();
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    writeDurably(tmpPath, JSON.stringify(Array.from(this.entries.values()), null, 2), 'w');
+    fs.renameSync(tmpPath, this.filePath);
+    // A crash before this truncation only replays entries the snapshot already holds
+    fs.writeFileSync(this.journalPath, '', 'utf-8');
+    this.journalEntries = 0;
   }
 
   private load(): void {
+    for (const entry of this.readSnapshot()) {
+      this.entries.set(entry.key, entry);
+    }
+    const journaled = this.readJournal();
+    for (const entry of journaled) {
+      this.entries.delete(entry.key);
+      this.entries.set(entry.key, entry);
+    }
+
+    const loaded = this.entries.size;
+    this.prune();
+    if (journaled.length > 0 || this.entries.size < loaded || this.recoveryNotes.length > 0) {
+      this.compact();
+    }
+  }
+
+  private readSnapshot(): IdempotencyEntry[] {
+    if (!fs.existsSync(this.filePath)) return [];
+
+    let data: unknown;
     try {
-      if (fs.existsSync(this.filePath)) {
-        const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
-        if (Array.isArray(data)) {
-          for (const entry of data) {
-            this.entries.set(entry.key, entry);
-          }
-        }
+      data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    } catch (err) {
+      throw this.corrupt(this.filePath, `not valid JSON: ${(err as Error).message}`);
+    }
+    if (!Array.isArray(data)) {
+      throw this.corrupt(this.filePath, 'expected an array of entries');
+    }
+    data.forEach((entry, index) => {
+      if (!isEntry(entry)) throw this.corrupt(this.filePath, `entry ${index} is malformed`);
+    });
+    return data as IdempotencyEntry[];
+  }
+
+  private readJournal(): IdempotencyEntry[] {
+    if (!fs.existsSync(this.journalPath)) return [];
+
+    const content = fs.readFileSync(this.journalPath, 'utf-8');
+    const lines = content.split('\n');
+    // Every complete entry ends with a newline, so the last element is empty unless a write was cut off
+    const tail = lines.pop() ?? '';
+    const entries: IdempotencyEntry[] = [];
+
+    lines.forEach((line, index) => {
+      if (line.trim() === '') return;
+      let entry: unknown;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        entry = undefined;
+      }
+      if (!isEntry(entry)) throw this.corrupt(this.journalPath, `line ${index + 1} is malformed`);
+      entries.push(entry);
+    });
+
+    if (tail.trim() !== '') {
+      this.recoveryNotes.push(
+        `Dropped an incomplete last entry from ${this.journalPath}; the server stopped while recording it.`,
+      );
+    }
+    return entries;
+  }
+
+  private appendToJournal(entry: IdempotencyEntry): void {
+    this.ensureDir();
+    writeDurably(this.journalPath, `${JSON.stringify(entry)}\n`, 'a');
+    this.journalEntries++;
+  }
+
+  /** Remove expired entries, then the oldest ones beyond maxEntries */
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (this.isExpired(entry, now)) this.entries.delete(key);
+    }
+    const excess = this.retention.maxEntries > 0 ? this.entries.size - this.retention.maxEntries : 0;
+    if (excess > 0) {
+      for (const key of Array.from(this.entries.keys()).slice(0, excess)) {
+        this.entries.delete(key);
       }
-    } catch {
-      // Start fresh if file is corrupted
-      this.entries.clear();
     }
   }
 
-  private persist(): void {
+  private isExpired(entry: IdempotencyEntry, now: number): boolean {
+    if (this.retention.ttlHours <= 0) return false;
+    return now - Date.parse(entry.created_at) > this.retention.ttlHours * 3_600_000;
+  }
+
+  private ensureDir(): void {
     const dir = path.dirname(this.filePath);
     if (!fs.existsSync(dir)) {
       fs.mkdirSync(dir, { recursive: true });
     }
-    const data = Array.from(this.entries.values());
-    fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2), 'utf-8');
+  }
+
+  private corrupt(file: string, reason: string): Error {
+    return new Error(
+      `Idempotency ledger ${file} is corrupt (${reason}). It was left untouched; repair it or move it aside, then restart.`,
+    );
+  }
+}
+
+function isEntry(value: unknown): value is IdempotencyEntry {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Record<string, unknown>;
+  return typeof entry['key'] === 'string'
+    && typeof entry['action'] === 'string'
+    && typeof entry['created_at'] === 'string';
+}
+
+/** Write and fsync, so the data is on disk before the call returns */
+function writeDurably(filePath: string, data: string, flags: 'w' | 'a'): void {
+  const fd = fs.openSync(filePath, flags);
+  try {
+    fs.writeSync(fd, data);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
   }
 }
@@ -0,0 +1,180 @@
+/**
+ * Storage backends for PlanStore.
+ *
+ * - MemoryPlanStorage: plans live as long as the process.
+ * - FilePlanStorage: plans are kept in a JSON file, so a plan prepared for
+ *   review survives a restart of the stdio process. The file is re-read on
+ *   every access and every change is made under a lock file
+ *   ("<path>.lock"), so several server processes can share it; a plan
+ *   claimed for commit by one process is gone for the others.
+ *
+ * A plan file that cannot be read is reported and left untouched rather than
+ * treated as empty, which would drop every plan under review.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BulkPlan } from '../protocol/types';
+
+/** How long a change waits for another process to release the lock */
+const LOCK_TIMEOUT_MS = 5000;
+/** A lock older than this was left behind by a crashed process */
+const STALE_LOCK_MS = 30_000;
+const LOCK_RETRY_MS = 10;
+
+export interface PlanStorage {
+  get(planId: string): BulkPlan | undefined;
+  /** Every stored plan, expired ones included */
+  all(): BulkPlan[];
+  put(plan: BulkPlan): void;
+  /** Returns false if the plan was not (or no longer) stored */
+  delete(planId: string): boolean;
+}
+
+export class MemoryPlanStorage implements PlanStorage {
+  private plans = new Map<string, BulkPlan>();
+
+  get(planId: string): BulkPlan | undefined {
+    return this.plans.get(planId);
+  }
+
+  all(): BulkPlan[] {
+    return Array.from(this.plans.values());
+  }
+
+  put(plan: BulkPlan): void {
+    this.plans.set(plan.plan_id, plan);
+  }
+
+  delete(planId: string): boolean {
+    return this.plans.delete(planId);
+  }
+}
+
+export class FilePlanStorage implements PlanStorage {
+  private filePath: string;
+  private lockPath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+    this.lockPath = `${this.filePath}.lock`;
+    // Fail at startup, not on the first commit, if the file is corrupt
+    this.read();
+  }
+
+  get(planId: string): BulkPlan | undefined {
+    return this.read().find((plan) => plan.plan_id === planId);
+  }
+
+  all(): BulkPlan[] {
+    return this.read();
+  }
+
+  put(plan: BulkPlan): void {
+    this.withLock(() => {
+      const plans = this.read().filter((p) => p.plan_id !== plan.plan_id);
+      plans.push(plan);
+      this.write(plans);
+    });
+  }
+
+  delete(planId: string): boolean {
+    return this.withLock(() => {
+      const plans = this.read();
+      const remaining = plans.filter((p) => p.plan_id !== planId);
+      if (remaining.length === plans.length) return false;
+      this.write(remaining);
+      return true;
+    });
+  }
+
+  private read(): BulkPlan[] {
+    if (!fs.existsSync(this.filePath)) return [];
+
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    } catch (err) {
+      throw this.corrupt(`not valid JSON: ${(err as Error).message}`);
+    }
+    if (!Array.isArray(data)) {
+      throw this.corrupt('expected an array of plans');
+    }
+    data.forEach((plan, index) => {
+      if (!isPlan(plan)) throw this.corrupt(`plan ${index} is malformed`);
+    });
+    return data as BulkPlan[];
+  }
+
+  /** Write to a temporary file and rename, so readers never see a partial file */
+  private write(plans: BulkPlan[]): void {
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(plans, null, 2), 'utf-8');
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  /**
+   * Run a read-modify-write while holding the lock file, so a change made by
+   * another process in between is not overwritten.
+   */
+  private withLock<T>(change: () => T): T {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      try {
+        fs.closeSync(fs.openSync(this.lockPath, 'wx'));
+        break;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+      }
+      if (this.lockIsStale()) {
+        fs.rmSync(this.lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `Plan file ${this.filePath} is locked by another process. If no other server is running, delete ${this.lockPath}.`,
+        );
+      }
+      sleepSync(LOCK_RETRY_MS);
+    }
+
+    try {
+      return change();
+    } finally {
+      fs.rmSync(this.lockPath, { force: true });
+    }
+  }
+
+  private lockIsStale(): boolean {
+    try {
+      return Date.now() - fs.statSync(this.lockPath).mtimeMs > STALE_LOCK_MS;
+    } catch {
+      // Released while we looked: not stale, just retry
+      return false;
+    }
+  }
+
+  private corrupt(reason: string): Error {
+    return new Error(
+      `Plan file ${this.filePath} is corrupt (${reason}). It was left untouched; repair it or move it aside, then restart.`,
+    );
+  }
+}
+
+function isPlan(value: unknown): value is BulkPlan {
+  if (!value || typeof value !== 'object') return false;
+  const plan = value as Record<string, unknown>;
+  return typeof plan['plan_id'] === 'string'
+    && typeof plan['action'] === 'string'
+    && typeof plan['expires_at'] === 'string';
+}
+
+/** Block the thread briefly; the storage API is synchronous */
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
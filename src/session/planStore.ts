@@ -1,70 +1,163 @@
 /**
  * Plan store for two-phase commit operations.
- * Stores prepared plans in-memory with expiry.
+ * Stores prepared plans with expiry in a pluggable backend (memory or file).
+ * A plan belongs to the user, profile and Magento instance that prepared it:
+ * any session logged in as that same identity can see and commit it, e.g.
+ * after the server restarted, and no other session can. This only holds for
+ * identities Magento verified (admin token logins); a plan prepared by an
+ * integration token or OAuth session belongs to that session alone.
  */
 
 import { v4 as uuidv4 } from 'uuid';
 import { BulkPlan } from '../protocol/types';
+import { PlanStorage } from './planStorage';
+
+export type PlanEventType = 'created' | 'consumed' | 'expired' | 'discarded';
+
+export type PlanListener = (type: PlanEventType, plan: BulkPlan) => void;
+
+/** Identity a plan is tied to */
+export interface PlanOwner {
+  username: string;
+  profile: string | null;
+  baseUrl: string;
+  /** Magento verified the username (admin token login) */
+  verified: boolean;
+}
+
+/** Resolve the identity a session is logged in as (null = not logged in) */
+export type PlanOwnerLookup = (sessionId: string) => PlanOwner | null;
 
 export class PlanStore {
-  private plans = new Map<string, BulkPlan>();
+  private listeners = new Set<PlanListener>();
+
+  constructor(
+    private storage: PlanStorage,
+    private ownerOf: PlanOwnerLookup,
+  ) {
+    this.cleanup();
+  }
+
+  /**
+   * Subscribe to plan lifecycle events. Returns an unsubscribe function.
+   */
+  subscribe(listener: PlanListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
 
   create(
+    sessionId: string,
     action: string,
     payload: unknown,
     affectedCount: number,
     expiryMinutes: number,
     sampleDiffs?: unknown[],
     warnings?: string[],
+    diffs?: unknown[],
   ): BulkPlan {
+    const owner = this.ownerOf(sessionId);
     const now = new Date();
     const plan: BulkPlan = {
       plan_id: uuidv4(),
+      session_id: sessionId,
+      username: owner?.username ?? null,
+      profile: owner?.profile ?? null,
+      base_url: owner?.baseUrl ?? null,
+      owner_verified: owner?.verified ?? false,
       action,
       created_at: now.toISOString(),
       expires_at: new Date(now.getTime() + expiryMinutes * 60_000).toISOString(),
       payload,
       affected_count: affectedCount,
       sample_diffs: sampleDiffs,
+      diffs,
       warnings,
     };
-    this.plans.set(plan.plan_id, plan);
+    this.storage.put(plan);
+    this.emit('created', plan);
     return plan;
   }
 
-  get(planId: string): BulkPlan | undefined {
-    const plan = this.plans.get(planId);
-    if (!plan) return undefined;
+  get(planId: string, sessionId: string): BulkPlan | undefined {
+    const plan = this.storage.get(planId);
+    if (!plan || !this.isOwnedBy(plan, sessionId)) return undefined;
 
     // Check expiry
     if (new Date(plan.expires_at) < new Date()) {
-      this.plans.delete(planId);
+      if (this.storage.delete(planId)) {
+        this.emit('expired', plan);
+      }
       return undefined;
     }
 
     return plan;
   }
 
-  consume(planId: string): BulkPlan | undefined {
-    const plan = this.get(planId);
-    if (plan) {
-      this.plans.delete(planId);
-    }
+  consume(planId: string, sessionId: string): BulkPlan | undefined {
+    const plan = this.get(planId, sessionId);
+    // Another process sharing the storage may have consumed it in the meantime
+    if (!plan || !this.storage.delete(planId)) return undefined;
+    this.emit('consumed', plan);
+    return plan;
+  }
+
+  /**
+   * Discard a plan without committing it. Returns the discarded plan, or
+   * undefined if the session does not own it or it already expired.
+   */
+  discard(planId: string, sessionId: string): BulkPlan | undefined {
+    const plan = this.get(planId, sessionId);
+    if (!plan || !this.storage.delete(planId)) return undefined;
+    this.emit('discarded', plan);
     return plan;
   }
 
+  /**
+   * List unexpired plans owned by a session's identity, oldest first.
+   */
+  list(sessionId: string): BulkPlan[] {
+    this.cleanup();
+    return this.storage
+      .all()
+      .filter((p) => this.isOwnedBy(p, sessionId))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
   /**
    * Clean up expired plans.
    */
   cleanup(): number {
     const now = new Date();
     let removed = 0;
-    for (const [id, plan] of this.plans.entries()) {
-      if (new Date(plan.expires_at) < now) {
-        this.plans.delete(id);
+    for (const plan of this.storage.all()) {
+      if (new Date(plan.expires_at) < now && this.storage.delete(plan.plan_id)) {
+        this.emit('expired', plan);
         removed++;
       }
     }
     return removed;
   }
+
+  /**
+   * Whether a session's identity owns a plan: it may see, cancel and commit
+   * it, and is notified of its changes.
+   */
+  isOwnedBy(plan: BulkPlan, sessionId: string): boolean {
+    const owner = this.ownerOf(sessionId);
+    return owner !== null
+      && (plan.owner_verified ?? false) === owner.verified
+      && (owner.verified || plan.session_id === sessionId)
+      && plan.username === owner.username
+      && plan.profile === owner.profile
+      && plan.base_url === owner.baseUrl;
+  }
+
+  private emit(type: PlanEventType, plan: BulkPlan): void {
+    for (const listener of this.listeners) {
+      listener(type, plan);
+    }
+  }
 }
@@ -6,6 +6,18 @@
 import { StoreScope } from '../protocol/types';
 import { OAuthCredentials } from '../client/magentoRest';
 
+/** Session ID used by single-client transports (stdio) */
+export const DEFAULT_SESSION_ID = 'default';
+
+/** How the session authenticated against Magento */
+export type AuthMethod = 'admin_token' | 'integration_token' | 'oauth';
+
+/**
+ * Username of every integration token and OAuth session. Magento does not
+ * say whose token it is, so a name sent by the caller is never used.
+ */
+export const INTEGRATION_USERNAME = 'integration';
+
 export interface SessionData {
   sessionId: string;
   baseUrl: string;
@@ -14,34 +26,64 @@ export interface SessionData {
   defaultScope: StoreScope | null;
   createdAt: string;
   oauth: OAuthCredentials | null;
+  authMethod: AuthMethod;
+  /** When the current token was obtained */
+  tokenIssuedAt: string;
+  /** Number of times the admin token was re-acquired after expiring */
+  tokenRefreshCount: number;
+  /** Admin credentials kept in memory so an expired admin token can be re-acquired */
+  adminCredentials: { username: string; password: string } | null;
+  /** Connection profile the session logged in with (null = plain auth.login) */
+  profile: string | null;
 }
 
 export class SessionStore {
   private sessions = new Map<string, SessionData>();
 
-  create(sessionId: string, baseUrl: string, token: string, username: string): SessionData {
+  create(
+    sessionId: string,
+    baseUrl: string,
+    token: string,
+    username: string,
+    authMethod: AuthMethod = 'integration_token',
+    adminPassword?: string,
+  ): SessionData {
+    const now = new Date().toISOString();
     const session: SessionData = {
       sessionId,
       baseUrl,
       token,
       username,
       defaultScope: null,
-      createdAt: new Date().toISOString(),
+      createdAt: now,
       oauth: null,
+      authMethod,
+      tokenIssuedAt: now,
+      tokenRefreshCount: 0,
+      adminCredentials: authMethod === 'admin_token' && adminPassword !== undefined
+        ? { username, password: adminPassword }
+        : null,
+      profile: null,
     };
     this.sessions.set(sessionId, session);
     return session;
   }
 
-  createOAuth(sessionId: string, baseUrl: string, oauthCreds: OAuthCredentials, username: string): SessionData {
+  createOAuth(sessionId: string, baseUrl: string, oauthCreds: OAuthCredentials): SessionData {
+    const now = new Date().toISOString();
     const session: SessionData = {
       sessionId,
       baseUrl,
       token: 'oauth',
-      username,
+      username: INTEGRATION_USERNAME,
       defaultScope: null,
-      createdAt: new Date().toISOString(),
+      createdAt: now,
       oauth: oauthCreds,
+      authMethod: 'oauth',
+      tokenIssuedAt: now,
+      tokenRefreshCount: 0,
+      adminCredentials: null,
+      profile: null,
     };
     this.sessions.set(sessionId, session);
     return session;
@@ -58,6 +100,25 @@ export class SessionStore {
     }
   }
 
+  setProfile(sessionId: string, profile: string | null): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.profile = profile;
+    }
+  }
+
+  /**
+   * Replace the token of a session after it was re-acquired.
+   */
+  replaceToken(sessionId: string, token: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.token = token;
+      session.tokenIssuedAt = new Date().toISOString();
+      session.tokenRefreshCount++;
+    }
+  }
+
   destroy(sessionId: string): boolean {
     return this.sessions.delete(sessionId);
   }
@@ -81,4 +142,20 @@ export class SessionStore {
   getOAuthCredentials(sessionId: string): OAuthCredentials | null {
     return this.sessions.get(sessionId)?.oauth ?? null;
   }
+
+  /**
+   * Whether Magento vouched for the session's username: only an admin token
+   * is issued for a specific user's password.
+   */
+  isIdentityVerified(sessionId: string): boolean {
+    return this.sessions.get(sessionId)?.authMethod === 'admin_token';
+  }
+
+  getProfile(sessionId: string): string | null {
+    return this.sessions.get(sessionId)?.profile ?? null;
+  }
+
+  getAdminCredentials(sessionId: string): { username: string; password: string } | null {
+    return this.sessions.get(sessionId)?.adminCredentials ?? null;
+  }
 }
@@ -0,0 +1,129 @@
+/**
+ * Drift detection for two-phase commits (optimistic concurrency).
+ *
+ * Prepare fingerprints the current values of the fields a plan will change,
+ * per target. Commit re-reads the targets and compares, so an edit made by
+ * someone else while the plan waited for review is not silently overwritten.
+ * Only the changed fields are fingerprinted: an unrelated edit (e.g. a stock
+ * update bumping updated_at) is not drift.
+ */
+
+import { createHash } from 'crypto';
+import { ErrorCodes } from '../protocol/types';
+import { GuardrailError } from './guardrails';
+
+/** abort: write nothing if any target drifted. skip: write only the unchanged targets. */
+export type DriftPolicy = 'abort' | 'skip';
+
+/** Recorded in a plan's payload at prepare time */
+export interface PlanFingerprints {
+  fields: string[];
+  /** Target key (SKU, page or block ID) → fingerprint of its field values */
+  items: Record<string, string>;
+}
+
+export interface DriftedItem {
+  item: string;
+  reason: string;
+  /** Current values of the fingerprinted fields, when the target still exists */
+  current?: Record<string, unknown>;
+}
+
+export interface DriftCheck {
+  /** Per-target report for the commit result (undefined for plans without fingerprints) */
+  report?: { checked: number; drifted_count: number; skipped: DriftedItem[] };
+  /** Keys of targets the commit must leave alone */
+  skipped: Set<string>;
+}
+
+/**
+ * Read a field from a Magento entity, falling back to its custom_attributes.
+ */
+export function readField(entity: Record<string, unknown>, field: string): unknown {
+  if (entity[field] !== undefined) return entity[field];
+  const custom = entity['custom_attributes'];
+  if (Array.isArray(custom)) {
+    const attr = custom.find((a: { attribute_code?: string }) => a?.attribute_code === field);
+    if (attr) return (attr as { value?: unknown }).value;
+  }
+  return undefined;
+}
+
+function currentValues(entity: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const field of fields) {
+    values[field] = readField(entity, field) ?? null;
+  }
+  return values;
+}
+
+/** Values are compared as strings: Magento returns 19.9 from one endpoint and "19.9" from another */
+function fingerprint(entity: Record<string, unknown>, fields: string[]): string {
+  const values = fields.map((field) => {
+    const value = readField(entity, field);
+    if (value === undefined || value === null) return null;
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+  return createHash('sha256').update(JSON.stringify(values)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Fingerprint the given fields of every target at prepare time.
+ */
+export function fingerprintTargets(
+  entities: Array<Record<string, unknown>>,
+  keyOf: (entity: Record<string, unknown>) => string,
+  fields: string[],
+): PlanFingerprints {
+  const items: Record<string, string> = {};
+  for (const entity of entities) {
+    items[keyOf(entity)] = fingerprint(entity, fields);
+  }
+  return { fields: [...fields].sort(), items };
+}
+
+/**
+ * Re-read a plan's targets and compare them with the prepare-time fingerprints.
+ *
+ * Throws PLAN_DRIFTED under the "abort" policy when any target changed or
+ * disappeared; under "skip" the drifted keys are returned for the caller to
+ * leave out. Plans prepared before fingerprints existed are not checked.
+ */
+export async function checkPlanDrift(
+  fingerprints: PlanFingerprints | undefined,
+  load: (keys: string[]) => Promise<Map<string, Record<string, unknown>>>,
+  policy: DriftPolicy,
+): Promise<DriftCheck> {
+  if (!fingerprints) return { skipped: new Set() };
+
+  const keys = Object.keys(fingerprints.items);
+  const current = await load(keys);
+  const drifted: DriftedItem[] = [];
+
+  for (const key of keys) {
+    const entity = current.get(key);
+    if (!entity) {
+      drifted.push({ item: key, reason: 'No longer exists' });
+    } else if (fingerprint(entity, fingerprints.fields) !== fingerprints.items[key]) {
+      drifted.push({
+        item: key,
+        reason: `Changed since the plan was prepared (${fingerprints.fields.join(', ')})`,
+        current: currentValues(entity, fingerprints.fields),
+      });
+    }
+  }
+
+  if (drifted.length > 0 && policy === 'abort') {
+    throw new GuardrailError(
+      ErrorCodes.PLAN_DRIFTED,
+      `${drifted.length} of ${keys.length} targets changed since the plan was prepared; nothing was written. ` +
+        'Review the changes and prepare a new plan, or commit again with on_drift: "skip" to apply only the unchanged targets.',
+      { drifted },
+    );
+  }
+
+  return {
+    report: { checked: keys.length, drifted_count: drifted.length, skipped: drifted },
+    skipped: new Set(drifted.map((d) => d.item)),
+  };
+}
@@ -4,7 +4,7 @@
  */
 
 import { McpConfig } from '../config';
-import { RiskTier, ErrorCodes } from '../protocol/types';
+import { ActionDefinition, RiskTier, ErrorCodes } from '../protocol/types';
 
 export class GuardrailError extends Error {
   constructor(
@@ -20,6 +20,40 @@ export class GuardrailError extends Error {
 export class Guardrails {
   constructor(private config: McpConfig) {}
 
+  /**
+   * Decide whether an action is exposed under the configured read-only mode,
+   * risk-tier ceiling and tool allow/deny lists.
+   * Returns the reason it is withheld, or null if it is allowed.
+   */
+  withheldReason(action: ActionDefinition): string | null {
+    if (this.config.readOnly && action.writes) {
+      return 'read-only mode';
+    }
+    if (action.riskTier > this.config.maxRiskTier) {
+      return `Tier ${action.riskTier} exceeds max risk tier ${this.config.maxRiskTier}`;
+    }
+    if (matchesAnyPattern(action.name, this.config.toolDenylist)) {
+      return 'matched tool denylist';
+    }
+    if (this.config.toolAllowlist.length > 0 && !matchesAnyPattern(action.name, this.config.toolAllowlist)) {
+      return 'not in tool allowlist';
+    }
+    return null;
+  }
+
+  /**
+   * Hard-block an action that the configuration withholds.
+   */
+  enforceActionAllowed(action: ActionDefinition): void {
+    const reason = this.withheldReason(action);
+    if (reason) {
+      throw new GuardrailError(
+        ErrorCodes.FORBIDDEN,
+        `Action ${action.name} is disabled on this server (${reason}).`,
+      );
+    }
+  }
+
   /**
    * Enforce Tier 2+ confirmation requirement.
    */
@@ -53,6 +87,19 @@ export class Guardrails {
     }
   }
 
+  /**
+   * Enforce the cap on CMS pages or blocks per bulk update.
+   */
+  enforceBulkCmsCap(count: number, kind: 'pages' | 'blocks'): void {
+    if (count > this.config.maxCmsItemsPerBulkCommit) {
+      throw new GuardrailError(
+        ErrorCodes.BULK_CAP_EXCEEDED,
+        `Bulk operation affects ${count} CMS ${kind}, exceeding the cap of ${this.config.maxCmsItemsPerBulkCommit}. Narrow the match or increase the cap via config.`,
+        { count, cap: this.config.maxCmsItemsPerBulkCommit },
+      );
+    }
+  }
+
   /**
    * Enforce coupon generation cap.
    */
@@ -132,3 +179,14 @@ export class Guardrails {
     }
   }
 }
+
+/**
+ * Match an action name against patterns like "catalog.get_product", "catalog.*" or "*".
+ */
+export function matchesAnyPattern(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => {
+    if (pattern === '*' || pattern === name) return true;
+    if (pattern.endsWith('.*')) return name.startsWith(pattern.slice(0, -1));
+    return false;
+  });
+}
@@ -7,222 +7,289 @@ import { z } from 'zod';
 // ── Common Schemas ──────────────────────────────────────────────────────────
 
 export const StoreScopeSchema = z.object({
-  website_code: z.string().optional(),
-  store_code: z.string().optional(),
-  store_view_code: z.string().optional(),
-  scope: z.literal('global').optional(),
+  website_code: z.string().optional().describe('Website code, e.g. "base"'),
+  store_code: z.string().optional().describe('Store (group) code'),
+  store_view_code: z.string().optional().describe('Store view code, e.g. "default"'),
+  scope: z.literal('global').optional().describe('Set to "global" to target the default (admin) scope'),
 }).refine(
   (data) => data.website_code || data.store_code || data.store_view_code || data.scope,
   { message: 'At least one scope field must be specified for write operations' },
 );
 
+// Optional here: the pipeline checks them before validation (and only when
+// MCP_TIER2_CONFIRM is on), so a missing confirm is CONFIRMATION_REQUIRED
 export const ConfirmationSchema = z.object({
-  confirm: z.literal(true),
-  reason: z.string().min(1, 'Reason is required for Tier 2+ operations'),
+  confirm: z.boolean().optional().describe('Must be true to confirm a Tier 2+ operation'),
+  reason: z.string().optional().describe('Why this change is being made (recorded in the audit log); required for Tier 2+ operations'),
 });
 
 export const IdempotencySchema = z.object({
-  idempotency_key: z.string().optional(),
+  idempotency_key: z.string().optional().describe('Client-chosen key; repeating it with the same parameters returns the earlier result instead of re-applying, reusing it with different parameters is rejected'),
+});
+
+export const DryRunSchema = z.object({
+  dry_run: z.boolean().optional().describe('If true, return the write requests this call would send instead of sending them'),
+});
+
+export const AsyncBulkSchema = z.object({
+  async_bulk: z.boolean().optional().describe('Submit as one Magento async bulk operation and return its bulk_uuid; defaults to MCP_ASYNC_BULK'),
+});
+
+export const DriftPolicySchema = z.object({
+  on_drift: z.enum(['abort', 'skip']).optional().default('abort').describe('If targets changed since prepare: "abort" writes nothing, "skip" writes only the unchanged targets'),
 });
 
 export const PaginationSchema = z.object({
-  page_size: z.number().int().min(1).max(200).optional().default(20),
-  current_page: z.number().int().min(1).optional().default(1),
+  page_size: z.number().int().min(1).max(200).optional().default(20).describe('Results per page (1-200)'),
+  current_page: z.number().int().min(1).optional().default(1).describe('1-based page number'),
 });
 
 // ── Auth Schemas ────────────────────────────────────────────────────────────
 
 export const AuthLoginSchema = z.object({
-  base_url: z.string().url('base_url must be a valid URL').optional(),
-  username: z.string().min(1).optional(),
-  password: z.string().min(1).optional(),
+  base_url: z.string().url('base_url must be a valid URL').optional().describe('Magento base URL; defaults to MAGENTO_BASE_URL'),
+  username: z.string().min(1).optional().describe('Admin username for a password login; defaults to MAGENTO_ADMIN_USERNAME'),
+  password: z.string().min(1).optional().describe('Admin password; defaults to MAGENTO_ADMIN_PASSWORD'),
+  oauth_consumer_key: z.string().optional().describe('Integration consumer key; defaults to MAGENTO_OAUTH_CONSUMER_KEY'),
+  oauth_consumer_secret: z.string().optional().describe('Integration consumer secret; defaults to MAGENTO_OAUTH_CONSUMER_SECRET'),
+  oauth_token: z.string().optional().describe('Integration access token; defaults to MAGENTO_OAUTH_TOKEN'),
+  oauth_token_secret: z.string().optional().describe('Integration access token secret; defaults to MAGENTO_OAUTH_TOKEN_SECRET'),
+  integration_token: z.string().optional().describe('Integration bearer token; defaults to MAGENTO_INTEGRATION_TOKEN'),
+});
+
+export const NoParamsSchema = z.object({});
+
+// ── Profile Schemas ─────────────────────────────────────────────────────────
+
+export const ProfileUseSchema = z.object({
+  name: z.string().min(1).describe('Connection profile to switch to, as listed by profile_list'),
 });
 
 // ── Scope Schemas ───────────────────────────────────────────────────────────
 
 export const ScopeSetDefaultSchema = z.object({
-  store_view_code: z.string().min(1),
+  store_view_code: z.string().min(1).describe('Store view code to use when a call does not pass an explicit scope'),
 });
 
 // ── Promotions Schemas ──────────────────────────────────────────────────────
 
 export const PrepareCartPriceRuleCreateSchema = z.object({
-  name: z.string().min(1),
+  name: z.string().min(1).describe('Rule name shown in the admin'),
   description: z.string().optional(),
-  website_ids: z.array(z.number().int()).min(1),
-  customer_group_ids: z.array(z.number().int()).min(1),
-  from_date: z.string().optional(),
-  to_date: z.string().optional(),
-  is_active: z.boolean().optional().default(false),
+  website_ids: z.array(z.number().int()).min(1).describe('Website IDs the rule applies to'),
+  customer_group_ids: z.array(z.number().int()).min(1).describe('Customer group IDs the rule applies to (0 = NOT LOGGED IN)'),
+  from_date: z.string().optional().describe('Start date (YYYY-MM-DD)'),
+  to_date: z.string().optional().describe('End date (YYYY-MM-DD); must be after from_date'),
+  is_active: z.boolean().optional().default(false).describe('Create the rule enabled; defaults to false'),
   simple_action: z.enum([
     'by_percent',
     'by_fixed',
     'cart_fixed',
     'buy_x_get_y',
-  ]),
-  discount_amount: z.number().min(0),
-  discount_qty: z.number().min(0).optional(),
+  ]).describe('Discount type'),
+  discount_amount: z.number().min(0).describe('Discount amount (percent for by_percent)'),
+  discount_qty: z.number().min(0).optional().describe('Maximum qty the discount is applied to'),
   apply_to_shipping: z.boolean().optional().default(false),
   stop_rules_processing: z.boolean().optional().default(false),
   sort_order: z.number().int().optional().default(0),
-  coupon_type: z.enum(['no_coupon', 'specific_coupon', 'auto']).optional().default('no_coupon'),
+  coupon_type: z.enum(['no_coupon', 'specific_coupon', 'auto']).optional().default('no_coupon').describe('Use "auto" to generate coupons later with promotions.generate_coupons'),
   uses_per_customer: z.number().int().min(0).optional(),
   uses_per_coupon: z.number().int().min(0).optional(),
-  conditions: z.unknown().optional(),
-  action_conditions: z.unknown().optional(),
+  conditions: z.unknown().optional().describe('Magento condition tree for the cart'),
+  action_conditions: z.unknown().optional().describe('Magento condition tree for the discounted items'),
 });
 
 export const CommitPlanSchema = z.object({
-  plan_id: z.string().uuid(),
-  confirm: z.literal(true),
-  reason: z.string().min(1),
-  idempotency_key: z.string().optional(),
+  plan_id: z.string().uuid().describe('plan_id returned by the matching prepare action'),
+  ...ConfirmationSchema.shape,
+  ...IdempotencySchema.shape,
+  ...DryRunSchema.shape,
 });
 
 export const SearchRulesSchema = z.object({
-  query: z.string().optional(),
+  query: z.string().optional().describe('Substring to match against the rule name'),
   website_code: z.string().optional(),
-  enabled: z.boolean().optional(),
+  enabled: z.boolean().optional().describe('Only return enabled (true) or disabled (false) rules'),
   ...PaginationSchema.shape,
 });
 
 export const GetRuleSchema = z.object({
-  rule_id: z.number().int(),
+  rule_id: z.number().int().describe('Cart price rule ID'),
 });
 
 export const UpdateRuleSchema = z.object({
-  rule_id: z.number().int(),
-  patch: z.record(z.unknown()),
-  confirm: z.literal(true),
-  reason: z.string().min(1),
+  rule_id: z.number().int().describe('Cart price rule ID'),
+  patch: z.record(z.unknown()).describe('Rule fields to change, in Magento salesRule format'),
+  ...ConfirmationSchema.shape,
+  ...IdempotencySchema.shape,
+  ...DryRunSchema.shape,
 });
 
 export const EnableRuleSchema = z.object({
-  rule_id: z.number().int(),
-  confirm: z.literal(true),
-  reason: z.string().min(1),
+  rule_id: z.number().int().describe('Cart price rule ID'),
+  ...ConfirmationSchema.shape,
+  ...IdempotencySchema.shape,
+  ...DryRunSchema.shape,
 });
 
 export const DisableRuleSchema = z.object({
-  rule_id: z.number().int(),
+  rule_id: z.number().int().describe('Cart price rule ID'),
+  ...IdempotencySchema.shape,
+  ...DryRunSchema.shape,
 });
 
 export const GenerateCouponsSchema = z.object({
-  rule_id: z.number().int(),
-  qty: z.number().int().min(1),
-  prefix: z.string().optional(),
-  length: z.number().int().min(4).max(32).optional().default(12),
+  rule_id: z.number().int().describe('Cart price rule ID (must use coupon_type "auto")'),
+  qty: z.number().int().min(1).describe('Number of coupons to generate'),
+  prefix: z.string().optional().describe('Prefix prepended to every code'),
+  length: z.number().int().min(4).max(32).optional().default(12).describe('Code length, excluding prefix'),
   format: z.enum(['alphanumeric', 'alphabetical', 'numeric']).optional().default('alphanumeric'),
   uses_per_coupon: z.number().int().min(0).optional(),
+  ...ConfirmationSchema.shape,
+  ...IdempotencySchema.shape,
+  ...DryRunSchema.shape,
 });
 
 export const ExportCouponsSchema = z.object({
-  rule_id: z.number().int(),
+  rule_id: z.number().int().describe('Cart price rule ID'),
   format: z.literal('csv').optional().default('csv'),
 });
 
 // ── Catalog Schemas ─────────────────────────────────────────────────────────
 
 export const CatalogSearchSchema = z.object({
-  filters: z.record(z.unknown()).optional(),
-  fields: z.array(z.string()).optional(),
+  filters: z.record(z.unknown()).optional().describe('Map of attribute to value, or to { value, condition } (e.g. { name: { value: "%shirt%", condition: "like" } })'),
+  fields: z.array(z.string()).optional().describe('Product fields to return (field projection)'),
   scope: StoreScopeSchema.optional(),
   ...PaginationSchema.shape,
 });
 
 export const CatalogGetProductSchema = z.object({
-  sku: z.string().min(1),
+  sku: z.string().min(1).describe('Product SKU'),
   scope: StoreScopeSchema.optional(),
 });
 
+const AttributeFilterValueSchema = z.union([
+  z.string().regex(/\S/, 'Filter value must not be empty'),
+  z.number(),
+]);
+
+export const AttributeFilterSchema = z.union([
+  AttributeFilterValueSchema,
+  z.object({
+    value: AttributeFilterValueSchema.describe('Value to compare against; for "in"/"nin" a comma-separated list'),
+    condition: z.enum(['eq', 'neq', 'like', 'nlike', 'in', 'nin', 'gt', 'gteq', 'lt', 'lteq', 'finset'])
+      .optional().describe('Magento search condition (default: eq)'),
+  }).strict(),
+]);
+
+export type AttributeFilter = z.infer<typeof AttributeFilterSchema>;
+
 export const CatalogBulkMatchSchema = z.object({
-  sku_list: z.array(z.string()).optional(),
-  sku_prefix: z.string().optional(),
-  attribute_filters: z.record(z.unknown()).optional(),
-  category_id: z.number().int().optional(),
-});
+  sku_list: z.array(z.string()).optional().describe('Exact SKUs to match'),
+  sku_prefix: z.string().optional().describe('Match every SKU starting with this prefix'),
+  attribute_filters: z.record(AttributeFilterSchema).optional().describe('Map of attribute to value, or to { value, condition }'),
+  category_id: z.number().int().optional().describe('Match products assigned to this category'),
+}).describe('Criteria selecting the products to change; all given criteria must match');
 
 export const PrepareBulkUpdateSchema = z.object({
   match: CatalogBulkMatchSchema,
-  updates: z.record(z.unknown()),
+  updates: z.record(z.unknown()).describe('Product fields to set; only fields in the configured allowlist are accepted'),
   scope: StoreScopeSchema,
 });
 
-export const CommitBulkUpdateSchema = CommitPlanSchema;
+export const CommitBulkUpdateSchema = z.object({
+  ...CommitPlanSchema.shape,
+  ...AsyncBulkSchema.shape,
+  ...DriftPolicySchema.shape,
+});
 
 // ── Pricing Schemas ─────────────────────────────────────────────────────────
 
 export const PrepareBulkPriceUpdateSchema = z.object({
   match: CatalogBulkMatchSchema,
   price_updates: z.object({
-    price: z.number().optional(),
-    special_price: z.number().optional(),
-    special_from_date: z.string().optional(),
-    special_to_date: z.string().optional(),
+    price: z.number().optional().describe('New base price'),
+    special_price: z.number().optional().describe('New special price'),
+    special_from_date: z.string().optional().describe('Special price start date (YYYY-MM-DD)'),
+    special_to_date: z.string().optional().describe('Special price end date (YYYY-MM-DD)'),
   }),
   scope: StoreScopeSchema,
 });
 
-export const CommitBulkPriceUpdateSchema = CommitPlanSchema;
+export const CommitBulkPriceUpdateSchema = z.object({
+  ...CommitPlanSchema.shape,
+  ...AsyncBulkSchema.shape,
+  ...DriftPolicySchema.shape,
+});
 
 // ── CMS Schemas ─────────────────────────────────────────────────────────────
 
 export const CmsSearchPagesSchema = z.object({
-  query: z.string().optional(),
+  query: z.string().optional().describe('Substring to match against the page title'),
   ...PaginationSchema.shape,
 });
 
 export const CmsGetPageSchema = z.object({
-  page_id: z.number().int(),
+  page_id: z.number().int().describe('CMS page ID'),
 });
 
 export const CmsPrepareBulkUpdatePagesSchema = z.object({
   match: z.object({
-    page_ids: z.array(z.number().int()).optional(),
-    identifier: z.string().optional(),
+    page_ids: z.array(z.number().int()).optional().describe('Exact page IDs to match'),
+    identifier: z.string().optional().describe('Substring to match against the page URL identifier'),
   }),
-  updates: z.record(z.unknown()),
+  updates: z.record(z.unknown()).describe('Page fields to set; only fields in the configured allowlist are accepted'),
   scope: StoreScopeSchema,
 });
 
-export const CmsCommitBulkUpdatePagesSchema = CommitPlanSchema;
+export const CmsCommitBulkUpdatePagesSchema = z.object({
+  ...CommitPlanSchema.shape,
+  ...DriftPolicySchema.shape,
+});
 
 export const CmsSearchBlocksSchema = z.object({
-  query: z.string().optional(),
+  query: z.string().optional().describe('Substring to match against the block title'),
   ...PaginationSchema.shape,
 });
 
 export const CmsGetBlockSchema = z.object({
-  block_id: z.number().int(),
+  block_id: z.number().int().describe('CMS block ID'),
 });
 
 export const CmsPrepareBulkUpdateBlocksSchema = z.object({
   match: z.object({
-    block_ids: z.array(z.number().int()).optional(),
-    identifier: z.string().optional(),
+    block_ids: z.array(z.number().int()).optional().describe('Exact block IDs to match'),
+    identifier: z.string().optional().describe('Substring to match against the block identifier'),
   }),
-  updates: z.record(z.unknown()),
+  updates: z.record(z.unknown()).describe('Block fields to set; only fields in the configured allowlist are accepted'),
   scope: StoreScopeSchema,
 });
 
-export const CmsCommitBulkUpdateBlocksSchema = CommitPlanSchema;
+export const CmsCommitBulkUpdateBlocksSchema = z.object({
+  ...CommitPlanSchema.shape,
+  ...DriftPolicySchema.shape,
+});
 
 // ── SEO Schemas ─────────────────────────────────────────────────────────────
 
 export const SeoPrepareBulkUrlKeysSchema = z.object({
   match: CatalogBulkMatchSchema,
   url_key_transform: z.object({
-    prefix: z.string().optional(),
-    suffix: z.string().optional(),
+    prefix: z.string().optional().describe('Prepended to the current URL key'),
+    suffix: z.string().optional().describe('Appended to the current URL key'),
     replace: z.object({
       search: z.string(),
       replacement: z.string(),
-    }).optional(),
+    }).optional().describe('Replace the first occurrence of search in the URL key'),
   }),
   scope: StoreScopeSchema,
 });
 
-export const SeoCommitBulkUrlKeysSchema = CommitPlanSchema;
+export const SeoCommitBulkUrlKeysSchema = z.object({
+  ...CommitPlanSchema.shape,
+  ...DriftPolicySchema.shape,
+});
 
 export const SeoBulkUpdateMetaSchema = z.object({
   match: CatalogBulkMatchSchema,
@@ -232,44 +299,88 @@ export const SeoBulkUpdateMetaSchema = z.object({
     meta_keyword: z.string().optional(),
   }),
   scope: StoreScopeSchema,
-  confirm: z.literal(true),
-  reason: z.string().min(1),
+  ...ConfirmationSchema.shape,
+  ...IdempotencySchema.shape,
+  ...DryRunSchema.shape,
 });
 
 export const SeoRedirectChainsSchema = z.object({
-  max_depth: z.number().int().min(1).max(10).optional().default(5),
+  max_depth: z.number().int().min(1).max(10).optional().default(5).describe('Maximum number of hops to follow'),
 });
 
 // ── Diagnostics Schemas ─────────────────────────────────────────────────────
 
 export const DiagnosticsProductDisplaySchema = z.object({
-  sku: z.string().min(1),
+  sku: z.string().min(1).describe('Product SKU'),
   store_view_code: z.string().optional(),
 });
 
 export const DiagnosticsInventorySchema = z.object({
-  sku: z.string().min(1),
+  sku: z.string().min(1).describe('Product SKU'),
   website_code: z.string().optional(),
 });
 
+// ── Plan Schemas ────────────────────────────────────────────────────────────
+
+export const PlansGetSchema = z.object({
+  plan_id: z.string().uuid().describe('plan_id returned by a prepare action or plans_list'),
+  page: z.number().int().min(1).optional().describe('Page of the full diff list (default 1)'),
+  page_size: z.number().int().min(1).max(500).optional().describe('Diffs per page (default 100, max 500)'),
+});
+
+export const PlansCancelSchema = z.object({
+  plan_id: z.string().uuid().describe('plan_id of the plan to discard'),
+});
+
+// ── Bulk Schemas ────────────────────────────────────────────────────────────
+
+export const BulkGetStatusSchema = z.object({
+  bulk_uuid: z.string().uuid().describe('bulk_uuid returned by an async bulk commit'),
+});
+
 // ── Cache Schemas ───────────────────────────────────────────────────────────
 
 export const CachePurgeByUrlSchema = z.object({
-  urls: z.array(z.string().url()).min(1).max(50),
-  confirm: z.literal(true),
-  reason: z.string().min(1),
+  urls: z.array(z.string().url()).min(1).max(50).describe('Exact URLs to purge (no wildcards, max 50)'),
+  ...ConfirmationSchema.shape,
+  ...IdempotencySchema.shape,
+  ...DryRunSchema.shape,
 });
 
 export const CachePurgeProductSchema = z.object({
-  sku: z.string().min(1),
+  sku: z.string().min(1).describe('Product SKU'),
   store_view_code: z.string().optional(),
-  confirm: z.literal(true),
-  reason: z.string().min(1),
+  ...ConfirmationSchema.shape,
+  ...IdempotencySchema.shape,
+  ...DryRunSchema.shape,
 });
 
 export const CachePurgeCategorySchema = z.object({
-  category_id: z.number().int(),
+  category_id: z.number().int().describe('Category ID'),
   store_view_code: z.string().optional(),
-  confirm: z.literal(true),
-  reason: z.string().min(1),
+  ...ConfirmationSchema.shape,
+  ...IdempotencySchema.shape,
+  ...DryRunSchema.shape,
+});
+
+// ── Audit Schemas ───────────────────────────────────────────────────────────
+
+const AuditTimeSchema = z.string().refine((value) => !Number.isNaN(Date.parse(value)), {
+  message: 'Must be an ISO 8601 date or date-time',
+});
+
+export const AuditSearchSchema = z.object({
+  from: AuditTimeSchema.optional().describe('Earliest record time, inclusive (ISO 8601, e.g. "2026-03-01" or "2026-03-01T09:00:00Z")'),
+  to: AuditTimeSchema.optional().describe('Latest record time; a date without a time includes that whole day (UTC)'),
+  username: z.string().min(1).optional().describe('Magento admin user who made the call'),
+  action: z.string().min(1).optional().describe('Action name ("pricing.commit_bulk_price_update"), namespace pattern ("pricing.*") or bare namespace ("pricing")'),
+  plan_id: z.string().min(1).optional().describe('Plan the call prepared or committed'),
+  sku: z.string().min(1).optional().describe('Product SKU the call targeted'),
+  page_id: z.number().int().optional().describe('CMS page ID the call targeted'),
+  block_id: z.number().int().optional().describe('CMS block ID the call targeted'),
+  rule_id: z.number().int().optional().describe('Cart price rule ID the call targeted'),
+  status: z.enum(['success', 'error', 'dry_run']).optional().describe('Outcome of the call'),
+  order: z.enum(['newest_first', 'oldest_first']).optional().default('newest_first'),
+  format: z.enum(['json', 'csv']).optional().default('json').describe('"csv" returns the page as CSV text instead of records'),
+  ...PaginationSchema.shape,
 });
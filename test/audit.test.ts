@@ -0,0 +1,97 @@
+/**
+ * Who may read which audit records through audit.search and the
+ * magento://audit/recent resource.
+ */
+
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { startServer, TestServer } from './harness';
+
+const ADMIN = { username: 'admin', password: 'admin123' };
+const EDITOR = { username: 'editor', password: 'editor123' };
+
+describe('audit visibility', () => {
+  let server: TestServer;
+
+  const searchUsernames = async (args: Record<string, unknown> = {}) => {
+    const result = await server.call('audit.search', { page_size: 100, ...args });
+    return new Set((result['records'] as Array<{ username: string | null }>).map((r) => r.username));
+  };
+
+  const recentUsernames = async () => {
+    const resource = await server.client.readResource({ uri: 'magento://audit/recent' });
+    const body = JSON.parse((resource.contents[0] as { text: string }).text) as { records: Array<{ username: string | null }> };
+    return new Set(body.records.map((r) => r.username));
+  };
+
+  before(async () => {
+    server = await startServer({ MCP_AUDIT_ADMIN_USERS: 'admin' }, {
+      adminUsers: [{ ...ADMIN }, { ...EDITOR }],
+    });
+    await server.login(EDITOR);
+    await server.call('catalog.get_product', { sku: 'TSHIRT-RED' });
+    await server.login(ADMIN);
+    await server.call('catalog.get_product', { sku: 'MUG-WHITE' });
+  });
+  after(() => server.close());
+
+  it('shows a user only their own records', async () => {
+    await server.login(EDITOR);
+    assert.deepEqual(await searchUsernames(), new Set(['editor']));
+    assert.deepEqual(await searchUsernames({ username: 'admin' }), new Set());
+    assert.deepEqual(await recentUsernames(), new Set(['editor']));
+  });
+
+  it('shows an audit admin every record', async () => {
+    await server.login(ADMIN);
+    assert.deepEqual(await searchUsernames(), new Set(['admin', 'editor']));
+    assert.deepEqual(await recentUsernames(), new Set(['admin', 'editor']));
+  });
+
+  it('pages through the matches in either order', async () => {
+    await server.login(ADMIN);
+    // audit.search records itself; only the logins stay put while paging
+    const seqs = async (args: Record<string, unknown>) => {
+      const result = await server.call('audit.search', { action: 'auth', ...args });
+      return { total: result['total_count'] as number, seqs: (result['records'] as Array<{ seq: number }>).map((r) => r.seq) };
+    };
+    const all = await seqs({ page_size: 100 });
+    assert.ok(all.total >= 4);
+
+    const paged: number[] = [];
+    for (let page = 1; page <= Math.ceil(all.total / 2); page++) {
+      const result = await seqs({ page_size: 2, current_page: page });
+      assert.equal(result.total, all.total);
+      paged.push(...result.seqs);
+    }
+    assert.deepEqual(paged, all.seqs);
+    assert.deepEqual((await seqs({ page_size: 100, order: 'oldest_first' })).seqs, [...all.seqs].reverse());
+  });
+
+  it('ignores the username sent with an integration token', async () => {
+    const login = await server.call('auth.login', {
+      base_url: server.baseUrl, integration_token: server.mock.issueToken(), username: 'admin',
+    });
+    assert.equal(login['username'], 'integration');
+    assert.deepEqual(await searchUsernames(), new Set(['integration']));
+    assert.deepEqual(await recentUsernames(), new Set(['integration']));
+    assert.equal(server.auditRecords().at(-1)?.username, 'integration');
+  });
+});
+
+describe('audit visibility with integration listed as an audit admin', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer({ MCP_AUDIT_ADMIN_USERS: 'integration' });
+    await server.login();
+  });
+  after(() => server.close());
+
+  it('never treats an integration session as an audit admin', async () => {
+    await server.login({ integration_token: server.mock.issueToken() });
+    const result = await server.call('audit.search', { page_size: 100 });
+    const usernames = new Set((result['records'] as Array<{ username: string | null }>).map((r) => r.username));
+    assert.deepEqual(usernames, new Set(['integration']));
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * AuditLogger on disk: size and daily rotation, gzip of rotated files,
+ * retention with its checkpoint, and a chain that verifies across all of
+ * them. The logger runs in-process in a temporary directory.
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLogger, AuditRotation } from '../src/audit/auditLogger';
+import { AuditRecord } from '../src/protocol/types';
+
+const NO_ROTATION: AuditRotation = { maxBytes: 0, daily: false, retentionDays: 0 };
+
+function record(n: number): AuditRecord {
+  return {
+    timestamp: new Date().toISOString(),
+    username: 'admin',
+    profile: null,
+    environment: 'test',
+    action: 'catalog.get_product',
+    scope: null,
+    params: { sku: `SKU-${n}` },
+    result_summary: `read ${n}`,
+    plan_id: null,
+    reason: null,
+    status: 'success',
+  };
+}
+
+describe('AuditLogger rotation and retention', () => {
+  let dir: string;
+  let logPath: string;
+
+  /** Oldest first, the active file last */
+  const names = (logger: AuditLogger) => logger.files().map((file) => path.basename(file));
+  const rotated = () => fs.readdirSync(dir).filter((name) => name !== 'audit.jsonl');
+
+  /** Wait until every rotated file is gzipped; compression runs in the background */
+  const compressed = async () => {
+    for (let i = 0; i < 200 && rotated().some((name) => !name.endsWith('.jsonl.gz')); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    assert.ok(rotated().every((name) => name.endsWith('.jsonl.gz')), `not compressed: ${rotated()}`);
+  };
+
+  const daysAgo = (file: string, days: number) => {
+    const when = new Date(Date.now() - days * 86_400_000);
+    fs.utimesSync(file, when, when);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'magento-mcp-audit-'));
+    logPath = path.join(dir, 'audit.jsonl');
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('rotates at the size limit, gzips rotated files and keeps one chain across them', async () => {
+    const logger = await AuditLogger.open(logPath, { ...NO_ROTATION, maxBytes: 1500 });
+    for (let i = 1; i <= 12; i++) logger.log(record(i));
+    await compressed();
+
+    assert.ok(rotated().length >= 2, `rotated: ${rotated()}`);
+    assert.ok(fs.statSync(logPath).size <= 1500);
+    assert.equal(names(logger).at(-1), 'audit.jsonl');
+
+    const recent = await logger.readRecent(12);
+    assert.deepEqual(recent.records.map((r) => r.seq), Array.from({ length: 12 }, (_, i) => i + 1));
+    const report = await logger.verify();
+    assert.equal(report.valid, true, JSON.stringify(report.issues));
+    assert.equal(report.files, rotated().length + 1);
+    assert.equal(report.last_seq, 12);
+  });
+
+  it('rotates on the first record of a new UTC day', async () => {
+    const first = await AuditLogger.open(logPath, { ...NO_ROTATION, daily: true });
+    first.log(record(1));
+    first.log(record(2));
+    daysAgo(logPath, 1);
+
+    // A restart the next day picks up the day from the file
+    const logger = await AuditLogger.open(logPath, { ...NO_ROTATION, daily: true });
+    logger.log(record(3));
+    await compressed();
+
+    assert.equal(rotated().length, 1);
+    const active = fs.readFileSync(logPath, 'utf-8').trim().split('\n').map((line) => JSON.parse(line) as AuditRecord);
+    assert.deepEqual(active.map((r) => r.seq), [3]);
+    assert.equal((await logger.verify()).valid, true);
+  });
+
+  it('deletes rotated files past the retention period and records a checkpoint', async () => {
+    const writer = await AuditLogger.open(logPath, { ...NO_ROTATION, maxBytes: 1500 });
+    for (let i = 1; i <= 12; i++) writer.log(record(i));
+    await compressed();
+    const [oldest, ...kept] = names(writer).slice(0, -1);
+    daysAgo(path.join(dir, oldest), 40);
+
+    const logger = await AuditLogger.open(logPath, { ...NO_ROTATION, maxBytes: 1500, retentionDays: 30 });
+    // The checkpoint may itself fill the active file and rotate it
+    await compressed();
+    assert.ok(!rotated().includes(oldest));
+    assert.ok(kept.every((name) => rotated().includes(name)));
+
+    const checkpoint = (await logger.readRecent(1)).records[0];
+    assert.equal(checkpoint.action, 'audit.retention');
+    assert.deepEqual(checkpoint.params['removed_files'], [oldest]);
+    const report = await logger.verify();
+    assert.equal(report.valid, true, JSON.stringify(report.issues));
+    assert.ok((report.first_seq ?? 0) > 1);
+  });
+
+  it('reports rotated files removed by hand as a break in the chain', async () => {
+    const writer = await AuditLogger.open(logPath, { ...NO_ROTATION, maxBytes: 1500 });
+    for (let i = 1; i <= 12; i++) writer.log(record(i));
+    await compressed();
+    const files = names(writer).slice(0, -1);
+    fs.unlinkSync(path.join(dir, files[files.length - 1]));
+
+    const report = await (await AuditLogger.open(logPath, { ...NO_ROTATION, maxBytes: 1500 })).verify();
+    assert.equal(report.valid, false);
+    assert.ok(report.issue_count > 0);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Admin token refresh: a 401 from Magento re-acquires the session's token
+ * once and retries the request; token and OAuth sessions have nothing to
+ * re-acquire it with.
+ */
+
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { errorCode, startServer, TestServer } from './harness';
+
+describe('token refresh on 401', () => {
+  let server: TestServer;
+
+  const tokenRequests = () =>
+    server.mock.requests.filter((r) => r.method === 'POST' && r.path.endsWith('/V1/integration/admin/token')).length;
+  const getProduct = () => server.call('catalog.get_product', { sku: 'TSHIRT-RED' });
+
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+
+  it('re-acquires an expired admin token and retries the request', async () => {
+    await server.login();
+    const before = tokenRequests();
+    server.mock.expireTokens();
+
+    const product = await getProduct();
+    assert.equal(errorCode(product), undefined, JSON.stringify(product));
+    assert.equal(product['sku'], 'TSHIRT-RED');
+    assert.equal(tokenRequests() - before, 1);
+
+    // The new token is kept for the session
+    assert.equal(errorCode(await getProduct()), undefined);
+    assert.equal(tokenRequests() - before, 1);
+  });
+
+  it('shares one refresh between concurrent requests', async () => {
+    await server.login();
+    const before = tokenRequests();
+    server.mock.expireTokens();
+
+    const results = await Promise.all([getProduct(), getProduct(), getProduct()]);
+    for (const result of results) assert.equal(errorCode(result), undefined, JSON.stringify(result));
+    assert.equal(tokenRequests() - before, 1);
+  });
+
+  it('asks for a new login when the token cannot be re-acquired', async () => {
+    await server.login();
+    server.mock.expireTokens();
+    server.mock.data.adminUsers.find((u) => u.username === 'admin')!.password = 'changed';
+    try {
+      const result = await getProduct();
+      assert.equal(errorCode(result), 'NOT_AUTHENTICATED');
+      assert.match((result['error'] as { message: string }).message, /auth\.login/);
+    } finally {
+      server.mock.data.adminUsers.find((u) => u.username === 'admin')!.password = 'admin123';
+    }
+  });
+
+  it('does not try to refresh an integration token', async () => {
+    await server.login({ integration_token: server.mock.issueToken() });
+    const before = tokenRequests();
+    server.mock.expireTokens();
+
+    assert.equal(errorCode(await getProduct()), 'MAGENTO_API_ERROR');
+    assert.equal(tokenRequests(), before);
+  });
+});
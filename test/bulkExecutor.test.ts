@@ -0,0 +1,123 @@
+/**
+ * BulkExecutor writing to the mock: the concurrency bound, the request rate,
+ * the budget shared per instance, throttling on 5xx and cancellation. The
+ * executor and client run in-process; each task holds its slot a little
+ * longer than the mock takes to answer so overlap is observable.
+ */
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { BulkExecutor } from '../src/client/bulkExecutor';
+import { MagentoRestClient } from '../src/client/magentoRest';
+import { MockMagentoServer } from './mockMagentoServer';
+
+const SKUS = ['TSHIRT-RED', 'TSHIRT-BLUE', 'TSHIRT-GREEN', 'MUG-WHITE', 'MUG-BLACK'];
+const HOLD_MS = 40;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('BulkExecutor', () => {
+  const mock = new MockMagentoServer();
+  let baseUrl: string;
+  let client: MagentoRestClient;
+  let inFlight: number;
+  let maxInFlight: number;
+  let starts: number[];
+  /** Items in flight as each one starts, itself included */
+  let startInFlight: number[];
+
+  /** PUT a product's name, tracking how many tasks overlap and when each starts */
+  const update = async (sku: string): Promise<void> => {
+    starts.push(Date.now());
+    startInFlight.push(++inFlight);
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    try {
+      await client.put(`/V1/products/${sku}`, { product: { sku, name: `Renamed ${sku}` } });
+      await sleep(HOLD_MS);
+    } finally {
+      inFlight--;
+    }
+  };
+
+  const hooks = (signal = new AbortController().signal) => ({ signal, onProgress: async () => {} });
+  const items = (count: number) => Array.from({ length: count }, (_, i) => SKUS[i % SKUS.length]);
+
+  before(async () => {
+    baseUrl = await mock.start();
+  });
+  after(() => mock.stop());
+  beforeEach(() => {
+    client = new MagentoRestClient(baseUrl, mock.issueToken(), { maxRetries: 0, retryBaseDelayMs: 5 });
+    inFlight = 0;
+    maxInFlight = 0;
+    starts = [];
+    startInFlight = [];
+    mock.requests.length = 0;
+  });
+
+  it('keeps at most `concurrency` items in flight and uses all of them', async () => {
+    const executor = new BulkExecutor({ concurrency: 3, requestsPerSecond: 0 });
+    const run = await executor.run(baseUrl, items(12), (sku) => sku, update, hooks());
+    assert.equal(run.processed, 12);
+    assert.equal(run.errors.length, 0);
+    assert.equal(maxInFlight, 3);
+  });
+
+  it('spaces item starts by the request rate', async () => {
+    const executor = new BulkExecutor({ concurrency: 5, requestsPerSecond: 20 });
+    await executor.run(baseUrl, items(5), (sku) => sku, update, hooks());
+    for (let i = 1; i < starts.length; i++) {
+      // 50 ms apart at 20 per second, less a little timer slack
+      assert.ok(starts[i] - starts[i - 1] >= 45, `start ${i} came ${starts[i] - starts[i - 1]} ms after the previous one`);
+    }
+  });
+
+  it('shares one budget between runs against the same instance', async () => {
+    const executor = new BulkExecutor({ concurrency: 2, requestsPerSecond: 0 });
+    await Promise.all([
+      executor.run(baseUrl, items(6), (sku) => sku, update, hooks()),
+      executor.run(baseUrl, items(6), (sku) => sku, update, hooks()),
+    ]);
+    assert.equal(maxInFlight, 2);
+
+    maxInFlight = 0;
+    await Promise.all([
+      executor.run(baseUrl, items(6), (sku) => sku, update, hooks()),
+      executor.run('http://other-instance', items(6), (sku) => sku, update, hooks()),
+    ]);
+    assert.equal(maxInFlight, 4);
+  });
+
+  it('halves concurrency and pauses new work when the instance answers 503', async () => {
+    const executor = new BulkExecutor({ concurrency: 4, requestsPerSecond: 0 });
+    client.setThrottleListener(() => executor.throttle(baseUrl));
+    // The whole first wave fails: 4 → 2 → 1 → 1 → 1, with no success to recover on
+    const firstWave = SKUS.slice(0, 4);
+    for (const sku of firstWave) mock.failNext('PUT', `/V1/products/${sku}`, 503);
+
+    const started = Date.now();
+    const run = await executor.run(baseUrl, items(10), (sku) => sku, update, hooks());
+
+    assert.deepEqual(run.errors.map((e) => e.item).sort(), [...firstWave].sort());
+    assert.equal(run.applied.length, 6);
+    const resumed = starts.slice(4);
+    assert.ok(resumed[0] - started >= 1900, `resumed after ${resumed[0] - started} ms`);
+    // One slot comes back per `limit` successes: 1, then 2, then 3 for the last items
+    assert.equal(startInFlight[4], 1);
+    assert.ok(Math.max(...startInFlight.slice(4)) <= 3, `in flight after throttling: ${startInFlight.slice(4)}`);
+  });
+
+  it('leaves unstarted items untouched when cancelled', async () => {
+    const executor = new BulkExecutor({ concurrency: 1, requestsPerSecond: 0 });
+    const controller = new AbortController();
+    const run = await executor.run(baseUrl, items(5), (sku) => sku, async (sku) => {
+      await update(sku);
+      if (starts.length === 2) controller.abort();
+    }, hooks(controller.signal));
+
+    assert.equal(run.cancelled, true);
+    assert.deepEqual(run.applied, SKUS.slice(0, 2));
+    assert.deepEqual(run.not_attempted, SKUS.slice(2));
+    assert.equal(mock.requests.filter((r) => r.method === 'PUT').length, 2);
+  });
+});
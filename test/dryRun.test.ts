@@ -0,0 +1,92 @@
+/**
+ * Dry runs: writes are recorded and returned instead of sent, per call with
+ * dry_run: true or for every call with MCP_DRY_RUN.
+ */
+
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { errorCode, startServer, TestServer } from './harness';
+
+const SCOPE = { store_view_code: 'default' };
+
+interface IntendedRequest {
+  method: string;
+  endpoint: string;
+  body: unknown;
+}
+
+describe('dry_run: true', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+    await server.login();
+  });
+  after(() => server.close());
+
+  const writes = () => server.mock.requests.filter((r) => r.method !== 'GET' && !r.path.endsWith('/token'));
+  const statusOf = (sku: string) => server.mock.data.products.find((p) => p['sku'] === sku)?.['status'];
+
+  it('returns the writes a commit would send, sends none and keeps the plan', async () => {
+    const plan = await server.call('catalog.prepare_bulk_update', {
+      match: { sku_prefix: 'TSHIRT' }, updates: { status: 2 }, scope: SCOPE,
+    });
+    const args = { plan_id: plan['plan_id'], confirm: true, reason: 'Check first', idempotency_key: 'dry-then-real' };
+    const writesBefore = writes().length;
+
+    const dry = await server.call('catalog.commit_bulk_update', { ...args, dry_run: true });
+    assert.equal(errorCode(dry), undefined, JSON.stringify(dry));
+    assert.equal(dry['dry_run'], true);
+    const intended = dry['intended_requests'] as IntendedRequest[];
+    assert.deepEqual(intended.map((r) => `${r.method} ${r.endpoint}`).sort(), [
+      'PUT /V1/products/TSHIRT-BLUE', 'PUT /V1/products/TSHIRT-GREEN', 'PUT /V1/products/TSHIRT-RED',
+    ]);
+    assert.deepEqual(intended[0].body, { product: { sku: intended[0].endpoint.split('/').at(-1), status: 2 } });
+    assert.equal(writes().length, writesBefore);
+    assert.equal(statusOf('TSHIRT-RED'), 1);
+    assert.equal(server.auditRecords().at(-1)?.status, 'dry_run');
+
+    // Neither the plan nor the idempotency key was used up
+    const real = await server.call('catalog.commit_bulk_update', args);
+    assert.equal(errorCode(real), undefined, JSON.stringify(real));
+    assert.equal(real['previous_result'], undefined);
+    assert.equal(statusOf('TSHIRT-RED'), 2);
+    assert.equal(server.auditRecords().at(-1)?.status, 'success');
+  });
+
+  it('only applies to write tools', async () => {
+    const product = await server.call('catalog.get_product', { sku: 'TSHIRT-RED', dry_run: true });
+    assert.equal(product['sku'], 'TSHIRT-RED');
+    assert.equal(server.auditRecords().at(-1)?.status, 'success');
+  });
+});
+
+describe('MCP_DRY_RUN', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer({ MCP_DRY_RUN: 'true' });
+    await server.login();
+  });
+  after(() => server.close());
+
+  it('records every write without a dry_run argument', async () => {
+    const rulesBefore = server.mock.data.salesRules.length;
+    const plan = await server.call('promotions.prepare_cart_price_rule_create', {
+      name: 'Dry summer sale', website_ids: [1], customer_group_ids: [0, 1], simple_action: 'by_percent', discount_amount: 10,
+    });
+    const args = { plan_id: plan['plan_id'], confirm: true, reason: 'Preview' };
+
+    const result = await server.call('promotions.commit_cart_price_rule_create', args);
+    assert.equal(errorCode(result), undefined, JSON.stringify(result));
+    assert.equal(result['dry_run'], true);
+    const intended = result['intended_requests'] as IntendedRequest[];
+    assert.deepEqual(intended.map((r) => `${r.method} ${r.endpoint}`), ['POST /V1/salesRules']);
+    assert.equal((intended[0].body as { rule: { name: string } }).rule.name, 'Dry summer sale');
+    assert.equal(server.mock.data.salesRules.length, rulesBefore);
+    assert.equal(server.auditRecords().at(-1)?.status, 'dry_run');
+
+    // The plan is still there for a second look
+    assert.equal(errorCode(await server.call('plans.get', { plan_id: plan['plan_id'] })), undefined);
+  });
+});
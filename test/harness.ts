@@ -0,0 +1,225 @@
+/**
+ * Runs the MCP server as a child process against a MockMagentoServer, with
+ * its audit log, idempotency ledger and plan file in a fresh temporary
+ * directory. startServer() talks to it over stdio (one session);
+ * startServerOverHttp() runs the Streamable HTTP transport, so a test can open
+ * several sessions.
+ *
+ * Usage:
+ *   const server = await startServer({ MCP_ASYNC_BULK_START_TIMEOUT_SECONDS: '1' });
+ *   await server.login();
+ *   const plan = await server.call('catalog.prepare_bulk_update', { ... });
+ *   await server.close();
+ */
+
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { ChildProcess, spawn } from 'child_process';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { AuditRecord } from '../src/protocol/types';
+import { MockMagentoDataset, MockMagentoServer } from './mockMagentoServer';
+
+const ROOT = path.resolve(__dirname, '..');
+// Resolved here: the server runs with the temporary directory as cwd
+const SERVER_ARGS = ['-r', require.resolve('ts-node/register/transpile-only'), path.join(ROOT, 'src', 'index.ts')];
+const HTTP_START_TIMEOUT_MS = 30_000;
+
+/** One MCP client session */
+export interface TestSession {
+  client: Client;
+  /** auth.login against the mock; the default admin unless other credentials are given */
+  login(credentials?: Record<string, unknown>): Promise<void>;
+  /** Call an action by its dotted name and return the parsed JSON response */
+  call(action: string, args?: Record<string, unknown>): Promise<Record<string, unknown>>;
+}
+
+interface ServerFiles {
+  mock: MockMagentoServer;
+  /** Base URL of the mock, as auth.login takes it */
+  baseUrl: string;
+  /** Temporary directory holding the server's files */
+  dir: string;
+  auditLogPath: string;
+  /** Every record in the active audit file, oldest first */
+  auditRecords(): AuditRecord[];
+}
+
+export interface TestServer extends TestSession, ServerFiles {
+  close(): Promise<void>;
+}
+
+export interface HttpTestServer extends ServerFiles {
+  /** Initialize a new MCP session; it is closed with the server */
+  connect(): Promise<TestSession>;
+  close(): Promise<void>;
+}
+
+export async function startServer(
+  env: Record<string, string> = {},
+  dataset: Partial<MockMagentoDataset> = {},
+): Promise<TestServer> {
+  const files = await prepare(dataset);
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: SERVER_ARGS,
+    cwd: files.dir,
+    env: serverEnv(files, env),
+    stderr: 'ignore',
+  });
+  const client = new Client({ name: 'magento-mcp-test', version: '1.0.0' });
+  try {
+    await client.connect(transport);
+  } catch (err) {
+    await cleanUp(files);
+    throw err;
+  }
+
+  return {
+    ...files,
+    ...session(client, files.baseUrl),
+    close: async () => {
+      await client.close();
+      await cleanUp(files);
+    },
+  };
+}
+
+export async function startServerOverHttp(
+  env: Record<string, string> = {},
+  dataset: Partial<MockMagentoDataset> = {},
+): Promise<HttpTestServer> {
+  const files = await prepare(dataset);
+  const port = await freePort();
+  const child = spawn(process.execPath, SERVER_ARGS, {
+    cwd: files.dir,
+    env: { ...serverEnv(files, env), MCP_TRANSPORT: 'http', MCP_HTTP_PORT: String(port) },
+    stdio: ['ignore', 'ignore', 'pipe'],
+  });
+  try {
+    await waitForListening(child);
+  } catch (err) {
+    child.kill();
+    await cleanUp(files);
+    throw err;
+  }
+
+  const url = new URL(`http://127.0.0.1:${port}/mcp`);
+  const clients: Client[] = [];
+  return {
+    ...files,
+    connect: async () => {
+      const client = new Client({ name: 'magento-mcp-test', version: '1.0.0' });
+      await client.connect(new StreamableHTTPClientTransport(url));
+      clients.push(client);
+      return session(client, files.baseUrl);
+    },
+    close: async () => {
+      await Promise.all(clients.map((client) => client.close()));
+      const exited = new Promise((resolve) => child.once('exit', resolve));
+      child.kill();
+      await exited;
+      await cleanUp(files);
+    },
+  };
+}
+
+/** The error code of a failed call, or undefined if it succeeded */
+export function errorCode(response: Record<string, unknown>): string | undefined {
+  return (response['error'] as { code?: string } | undefined)?.code;
+}
+
+/** A TCP port nothing listens on right now */
+export function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+// ── Private ─────────────────────────────────────────────────────────────────
+
+async function prepare(dataset: Partial<MockMagentoDataset>): Promise<ServerFiles> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'magento-mcp-test-'));
+  const auditLogPath = path.join(dir, 'audit.jsonl');
+  const mock = new MockMagentoServer(dataset);
+  const baseUrl = await mock.start();
+  return {
+    mock,
+    baseUrl,
+    dir,
+    auditLogPath,
+    auditRecords: () => fs.readFileSync(auditLogPath, 'utf-8')
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as AuditRecord),
+  };
+}
+
+function serverEnv(files: ServerFiles, env: Record<string, string>): Record<string, string> {
+  return {
+    ...(process.env as Record<string, string>),
+    TS_NODE_PROJECT: path.join(ROOT, 'tsconfig.json'),
+    MCP_AUDIT_LOG_PATH: files.auditLogPath,
+    MCP_IDEMPOTENCY_PATH: path.join(files.dir, 'idempotency.json'),
+    ...env,
+  };
+}
+
+async function cleanUp(files: ServerFiles): Promise<void> {
+  await files.mock.stop();
+  fs.rmSync(files.dir, { recursive: true, force: true });
+}
+
+function session(client: Client, baseUrl: string): TestSession {
+  const call = async (action: string, args: Record<string, unknown> = {}): Promise<Record<string, unknown>> => {
+    const result = await client.callTool({ name: action.replace(/\./g, '_'), arguments: args });
+    const content = result.content as Array<{ type: string; text: string }>;
+    return JSON.parse(content[0].text) as Record<string, unknown>;
+  };
+  return {
+    client,
+    call,
+    login: async (credentials = { username: 'admin', password: 'admin123' }) => {
+      const response = await call('auth.login', { base_url: baseUrl, ...credentials });
+      if (response['error']) throw new Error(`auth.login failed: ${JSON.stringify(response['error'])}`);
+    },
+  };
+}
+
+/** Resolves once the server logs that it is listening; rejects if it exits or takes too long */
+function waitForListening(child: ChildProcess): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let output = '';
+    const timer = setTimeout(() => fail(new Error(`HTTP server did not start:\n${output}`)), HTTP_START_TIMEOUT_MS);
+    const onData = (chunk: Buffer) => {
+      output += chunk.toString();
+      if (output.includes('Listening on http://')) {
+        finish();
+        resolve();
+      }
+    };
+    const onExit = (code: number | null) => fail(new Error(`HTTP server exited with ${code}:\n${output}`));
+    child.stderr!.on('data', onData);
+    child.once('exit', onExit);
+
+    function finish(): void {
+      clearTimeout(timer);
+      child.stderr!.off('data', onData);
+      child.off('exit', onExit);
+      // Keep draining stderr so the child never blocks on a full pipe
+      child.stderr!.resume();
+    }
+    function fail(err: Error): void {
+      finish();
+      reject(err);
+    }
+  });
+}
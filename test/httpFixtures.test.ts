@@ -0,0 +1,96 @@
+/**
+ * HTTP fixture recording and replay: recordings never hold credentials, and
+ * the committed fixture set replays the workflow below without a network.
+ *
+ * The committed set in test/fixtures/http was recorded with this workflow
+ * against the MockMagentoServer; re-record it after changing the workflow
+ * or the requests the server sends.
+ */
+
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { errorCode, startServer, TestServer } from './harness';
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'http');
+const PASSWORD = 'admin123';
+
+async function runWorkflow(server: TestServer): Promise<Record<string, unknown>> {
+  await server.login();
+  const product = await server.call('catalog.get_product', { sku: 'TSHIRT-RED' });
+  assert.equal(errorCode(product), undefined, JSON.stringify(product));
+
+  const plan = await server.call('catalog.prepare_bulk_update', {
+    match: { sku_prefix: 'TSHIRT' }, updates: { status: 2 }, scope: { store_view_code: 'default' },
+  });
+  assert.equal(plan['affected_count'], 3);
+  const commit = await server.call('catalog.commit_bulk_update', { plan_id: plan['plan_id'], confirm: true, reason: 'Fixture run' });
+  assert.equal(errorCode(commit), undefined, JSON.stringify(commit));
+  return commit;
+}
+
+function readFixtures(dir: string): Array<{ name: string; text: string }> {
+  return fs.readdirSync(dir)
+    .filter((name) => name.endsWith('.json'))
+    .map((name) => ({ name, text: fs.readFileSync(path.join(dir, name), 'utf-8') }));
+}
+
+function assertNoCredentials(fixtures: Array<{ name: string; text: string }>, tokens: string[]): void {
+  assert.ok(fixtures.length > 0, 'no fixtures recorded');
+  for (const { name, text } of fixtures) {
+    assert.ok(!text.includes(PASSWORD), `${name} contains the password`);
+    for (const token of tokens) assert.ok(!text.includes(token), `${name} contains an admin token`);
+    const headers = (JSON.parse(text) as { request: { headers: Record<string, string> } }).request.headers;
+    assert.deepEqual(Object.keys(headers).filter((h) => /authorization|fastly-key/i.test(h)), [], `${name} keeps credential headers`);
+  }
+
+  const login = fixtures.find(({ name }) => name.startsWith('POST_rest_V1_integration_admin_token'));
+  assert.ok(login, 'the admin token request was not recorded');
+  const fixture = JSON.parse(login.text) as { request: { body: Record<string, unknown> }; responses: Array<{ body: string }> };
+  assert.equal(fixture.request.body['password'], '[REDACTED]');
+  assert.equal(fixture.responses[0].body, JSON.stringify('[REDACTED]'));
+}
+
+describe('HTTP fixtures', () => {
+  describe('record', () => {
+    let server: TestServer;
+
+    before(async () => {
+      // Relative to the server's working directory, i.e. server.dir
+      server = await startServer({ MCP_FIXTURE_MODE: 'record', MCP_FIXTURE_DIR: 'fixtures' });
+    });
+    after(() => server.close());
+
+    it('writes no passwords, tokens or credential headers', async () => {
+      await runWorkflow(server);
+      assertNoCredentials(readFixtures(path.join(server.dir, 'fixtures')), server.mock.issuedTokens());
+    });
+  });
+
+  describe('replay', () => {
+    let server: TestServer;
+
+    before(async () => {
+      server = await startServer({ MCP_FIXTURE_MODE: 'replay', MCP_FIXTURE_DIR: FIXTURE_DIR });
+    });
+    after(() => server.close());
+
+    it('committed fixtures hold no passwords or credential headers', () => {
+      assertNoCredentials(readFixtures(FIXTURE_DIR), []);
+    });
+
+    it('runs the workflow from the committed fixtures without sending a request', async () => {
+      const commit = await runWorkflow(server);
+      assert.deepEqual(server.mock.requests, []);
+      assert.equal(server.mock.data.products.find((p) => p['sku'] === 'TSHIRT-RED')?.['status'], 1, 'replay must not write');
+      assert.equal(server.auditRecords().at(-1)?.status, 'success', JSON.stringify(commit));
+    });
+
+    it('fails a request that has no fixture', async () => {
+      const result = await server.call('catalog.get_product', { sku: 'NOT-RECORDED' });
+      assert.notEqual(errorCode(result), undefined);
+      assert.match(JSON.stringify(result), /No HTTP fixture for GET \/rest\/V1\/products\/NOT-RECORDED/);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * The Streamable HTTP transport: bearer token, session lifecycle and the
+ * session cap. The transport runs in-process with bare MCP servers; the
+ * Magento side is not involved.
+ */
+
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { loadConfig } from '../src/config';
+import { startHttpServer } from '../src/protocol/httpServer';
+import { freePort } from './harness';
+
+const TOKEN = 'test-token';
+
+describe('HTTP transport', () => {
+  let httpServer: http.Server;
+  let url: URL;
+  let created = 0;
+  let closed = 0;
+  const closedSessions: string[] = [];
+
+  const post = (body: unknown, headers: Record<string, string> = {}) => fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      Authorization: `Bearer ${TOKEN}`,
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const connect = async () => {
+    const client = new Client({ name: 'http-test', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(url, { requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } } });
+    await client.connect(transport);
+    return { client, transport };
+  };
+
+  before(async () => {
+    const port = await freePort();
+    httpServer = await startHttpServer({ ...loadConfig(), httpPort: port, httpAuthToken: TOKEN, httpMaxSessions: 2 }, {
+      createServer: () => {
+        const server = new McpServer({ name: 'http-test', version: '1.0.0' });
+        created++;
+        server.server.onclose = () => { closed++; };
+        return server;
+      },
+      onSessionClosed: (sessionId) => closedSessions.push(sessionId),
+    });
+    url = new URL(`http://127.0.0.1:${port}/mcp`);
+  });
+  after(() => new Promise<void>((resolve) => {
+    httpServer.closeAllConnections();
+    httpServer.close(() => resolve());
+  }));
+
+  it('rejects a request without the bearer token', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, { Authorization: 'Bearer wrong' });
+    assert.equal(response.status, 401);
+  });
+
+  it('closes the server built for a request that carries no session', async () => {
+    const before = { created, closed };
+    for (let i = 0; i < 5; i++) {
+      const response = await post({ jsonrpc: '2.0', id: i, method: 'tools/list' });
+      assert.equal(response.status, 400);
+    }
+    assert.equal(created - before.created, 5);
+    assert.equal(closed - before.closed, 5);
+  });
+
+  it('rejects an unknown session', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, { 'Mcp-Session-Id': 'not-a-session' });
+    assert.equal(response.status, 404);
+  });
+
+  it('caps concurrent sessions and frees a slot when a session ends', async () => {
+    const first = await connect();
+    const second = await connect();
+    const third = new Client({ name: 'http-test', version: '1.0.0' });
+    await assert.rejects(
+      third.connect(new StreamableHTTPClientTransport(url, { requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } } })),
+      /503|Too many MCP sessions/,
+    );
+
+    const sessionId = first.transport.sessionId!;
+    await first.transport.terminateSession();
+    await first.client.close();
+    assert.deepEqual(closedSessions, [sessionId]);
+
+    const replacement = await connect();
+    await replacement.client.close();
+    await second.client.close();
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * IdempotencyLedger on disk: journal replay and compaction, recovery from a
+ * write cut off mid-entry, refusal to start over a corrupt file, retention.
+ */
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IdempotencyLedger } from '../src/session/idempotencyLedger';
+import { IdempotencyEntry } from '../src/protocol/types';
+
+describe('IdempotencyLedger', () => {
+  let dir: string;
+  let ledgerPath: string;
+  let journalPath: string;
+
+  const entry = (key: string, hoursAgo = 0): IdempotencyEntry => ({
+    key,
+    action: 'catalog.commit_bulk_update',
+    created_at: new Date(Date.now() - hoursAgo * 3_600_000).toISOString(),
+    request_hash: `hash-${key}`,
+    result_summary: 'ok',
+    result: { message: `result ${key}` },
+  });
+  const snapshot = () => JSON.parse(fs.readFileSync(ledgerPath, 'utf-8')) as IdempotencyEntry[];
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'magento-mcp-ledger-'));
+    ledgerPath = path.join(dir, 'idempotency.json');
+    journalPath = `${ledgerPath}.journal`;
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('replays the journal at startup and folds it into the snapshot', () => {
+    const ledger = new IdempotencyLedger(ledgerPath);
+    ledger.record('a', 'catalog.commit_bulk_update', 'hash-a', { ok: 1 }, 'ok');
+    ledger.record('b', 'catalog.commit_bulk_update', 'hash-b', { ok: 2 }, 'ok');
+    assert.equal(fs.readFileSync(journalPath, 'utf-8').trim().split('\n').length, 2);
+
+    const reopened = new IdempotencyLedger(ledgerPath);
+    assert.deepEqual(reopened.get('b')?.result, { ok: 2 });
+    assert.equal(reopened.size, 2);
+    assert.deepEqual(snapshot().map((e) => e.key), ['a', 'b']);
+    assert.equal(fs.readFileSync(journalPath, 'utf-8'), '');
+    assert.deepEqual(reopened.recoveryNotes, []);
+  });
+
+  it('compacts after every 200 records', () => {
+    const ledger = new IdempotencyLedger(ledgerPath);
+    for (let i = 0; i < 200; i++) ledger.record(`k${i}`, 'a', 'h', null, 'ok');
+    assert.equal(fs.readFileSync(journalPath, 'utf-8'), '');
+    assert.equal(snapshot().length, 200);
+  });
+
+  it('drops an entry cut off mid-write and keeps the ones before it', () => {
+    fs.writeFileSync(journalPath, `${JSON.stringify(entry('a'))}\n${JSON.stringify(entry('b')).slice(0, 40)}`);
+    const ledger = new IdempotencyLedger(ledgerPath);
+    assert.ok(ledger.has('a'));
+    assert.ok(!ledger.has('b'));
+    assert.equal(ledger.recoveryNotes.length, 1);
+    assert.match(ledger.recoveryNotes[0], /incomplete last entry/);
+    assert.deepEqual(snapshot().map((e) => e.key), ['a']);
+    assert.equal(fs.readFileSync(journalPath, 'utf-8'), '');
+  });
+
+  it('refuses to start over a corrupt snapshot and leaves it untouched', () => {
+    const content = `[${JSON.stringify(entry('a'))},`;
+    fs.writeFileSync(ledgerPath, content);
+    assert.throws(() => new IdempotencyLedger(ledgerPath), /is corrupt \(not valid JSON.*left untouched/);
+    assert.equal(fs.readFileSync(ledgerPath, 'utf-8'), content);
+  });
+
+  it('refuses to start over a malformed journal line before the last', () => {
+    const content = `${JSON.stringify(entry('a'))}\n{"key":1}\n${JSON.stringify(entry('c'))}\n`;
+    fs.writeFileSync(journalPath, content);
+    assert.throws(() => new IdempotencyLedger(ledgerPath), /journal is corrupt \(line 2 is malformed\)/);
+    assert.equal(fs.readFileSync(journalPath, 'utf-8'), content);
+    assert.ok(!fs.existsSync(ledgerPath));
+  });
+
+  it('forgets entries past the TTL and beyond maxEntries, oldest first', () => {
+    fs.writeFileSync(ledgerPath, JSON.stringify([entry('old', 48), entry('a', 3), entry('b', 2), entry('c', 1)]));
+    const ledger = new IdempotencyLedger(ledgerPath, { ttlHours: 24, maxEntries: 2 });
+    assert.deepEqual(snapshot().map((e) => e.key), ['b', 'c']);
+    assert.ok(!ledger.has('old'));
+    assert.ok(!ledger.has('a'));
+    assert.deepEqual(ledger.get('c')?.result, { message: 'result c' });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * MagentoRestClient against the mock: retries, backoff and Retry-After.
+ * The client runs in-process; failures are injected with failNext().
+ */
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MagentoApiException, MagentoRestClient } from '../src/client/magentoRest';
+import { MockMagentoServer } from './mockMagentoServer';
+
+const OPTIONS = { maxRetries: 2, retryBaseDelayMs: 5, retryMaxDelayMs: 2000, requestTimeoutMs: 5000 };
+
+describe('MagentoRestClient retries', () => {
+  const mock = new MockMagentoServer();
+  let baseUrl: string;
+  let client: MagentoRestClient;
+
+  const attempts = (method: string, path: string) =>
+    mock.requests.filter((r) => r.method === method && r.path.split('?')[0] === path).length;
+
+  before(async () => {
+    baseUrl = await mock.start();
+  });
+  after(() => mock.stop());
+  beforeEach(() => {
+    mock.requests.length = 0;
+    client = new MagentoRestClient(baseUrl, mock.issueToken(), OPTIONS);
+  });
+
+  it('retries a GET on 503 until it succeeds', async () => {
+    mock.failNext('GET', '/V1/products/TSHIRT-RED', 503, { times: 2 });
+    const product = await client.get<{ sku: string }>('/V1/products/TSHIRT-RED');
+    assert.equal(product.sku, 'TSHIRT-RED');
+    assert.equal(attempts('GET', '/V1/products/TSHIRT-RED'), 3);
+    assert.equal(client.retryCount, 2);
+  });
+
+  it('gives up after maxRetries and reports the last status', async () => {
+    mock.failNext('GET', '/V1/products/TSHIRT-RED', 503, { times: 3 });
+    await assert.rejects(client.get('/V1/products/TSHIRT-RED'), (err: unknown) => {
+      assert.ok(err instanceof MagentoApiException);
+      assert.equal(err.statusCode, 503);
+      return true;
+    });
+    assert.equal(attempts('GET', '/V1/products/TSHIRT-RED'), 3);
+  });
+
+  it('waits as long as Retry-After asks', async () => {
+    mock.failNext('GET', '/V1/products/TSHIRT-RED', 429, { headers: { 'Retry-After': '1' } });
+    const started = Date.now();
+    await client.get('/V1/products/TSHIRT-RED');
+    assert.ok(Date.now() - started >= 950, `retried after ${Date.now() - started} ms`);
+  });
+
+  it('does not wait for a Retry-After longer than retryMaxDelayMs', async () => {
+    mock.failNext('GET', '/V1/products/TSHIRT-RED', 503, { headers: { 'Retry-After': '120' } });
+    await assert.rejects(client.get('/V1/products/TSHIRT-RED'), /503/);
+    assert.equal(attempts('GET', '/V1/products/TSHIRT-RED'), 1);
+  });
+
+  it('does not retry a POST on 503, which Magento may have processed', async () => {
+    mock.failNext('POST', '/V1/products', 503);
+    await assert.rejects(client.post('/V1/products', { product: { sku: 'NEW-1' } }), /503/);
+    assert.equal(attempts('POST', '/V1/products'), 1);
+  });
+
+  it('retries a POST on 429, which Magento rejected before processing', async () => {
+    mock.failNext('POST', '/V1/products', 429);
+    await client.post('/V1/products', { product: { sku: 'NEW-2' } });
+    assert.equal(attempts('POST', '/V1/products'), 2);
+    assert.equal(mock.data.products.filter((p) => p['sku'] === 'NEW-2').length, 1);
+  });
+
+  it('does not retry a client error', async () => {
+    await assert.rejects(client.get('/V1/products/NO-SUCH-SKU'), /404/);
+    assert.equal(attempts('GET', '/V1/products/NO-SUCH-SKU'), 1);
+  });
+});
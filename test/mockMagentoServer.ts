@@ -0,0 +1,678 @@
+/**
+ * In-process mock of the Magento REST endpoints this server calls.
+ *
+ * Backed by an in-memory dataset that writes mutate, so a test can drive a
+ * full prepare → commit cycle and then inspect `server.data`. Supports
+ * searchCriteria filter groups (OR within a group, AND across groups) with
+ * eq, neq, like, nlike, in, nin, gt, gteq, lt, lteq, null and notnull, plus
+ * sort orders and paging. Store codes in the URL are accepted but all
+ * scopes share one dataset.
+ *
+ * Async bulk product updates are queued as open operations and applied at
+ * once while `asyncConsumerRunning` is true; set it to false to simulate a
+ * stopped async.operations.all consumer, and call runAsyncConsumer() to
+ * drain the queue later. failNext() makes the next matching requests fail
+ * with a chosen status and headers, e.g. 503 with Retry-After.
+ *
+ * Usage:
+ *   const mock = new MockMagentoServer();
+ *   const baseUrl = await mock.start();
+ *   // auth.login with { base_url: baseUrl, username: 'admin', password: 'admin123' }
+ *   await mock.stop();
+ */
+
+import * as http from 'http';
+import * as crypto from 'crypto';
+
+type Row = Record<string, unknown>;
+
+export interface MockMagentoDataset {
+  adminUsers: Array<{ username: string; password: string; email?: string }>;
+  products: Row[];
+  salesRules: Row[];
+  coupons: Row[];
+  cmsPages: Row[];
+  cmsBlocks: Row[];
+  urlRewrites: Row[];
+  websites: Row[];
+  storeGroups: Row[];
+  storeViews: Row[];
+  storeConfigs: Row[];
+  sourceItems: Row[];
+  /** Salable quantity per SKU for stock 1; defaults to the sum of in-stock source items */
+  salableQty: Record<string, number>;
+}
+
+export interface MockRequestLogEntry {
+  method: string;
+  path: string;
+  store_code: string | null;
+  body: unknown;
+}
+
+interface Filter {
+  field: string;
+  value: string;
+  conditionType: string;
+}
+
+interface RouteMatch {
+  params: string[];
+  storeCode: string | null;
+  query: URLSearchParams;
+  body: unknown;
+  token: string | null;
+}
+
+type RouteHandler = (match: RouteMatch) => { status?: number; body: unknown };
+
+export interface MockBulkOperation {
+  id: number;
+  /** 1 complete, 3 failed, 4 open */
+  status: number;
+  product: Row;
+  result_message: string | null;
+}
+
+class MockHttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly parameters?: unknown[]) {
+    super(message);
+  }
+}
+
+const ROUTE_NOT_FOUND = 'Request does not match any route.';
+
+export class MockMagentoServer {
+  readonly data: MockMagentoDataset;
+  /** Every request received, in order */
+  readonly requests: MockRequestLogEntry[] = [];
+  /** Async bulk operations by bulk UUID */
+  readonly bulks = new Map<string, { start_time: string; operations: MockBulkOperation[] }>();
+  /** Whether queued async bulk operations are applied as soon as they arrive */
+  asyncConsumerRunning = true;
+
+  private server: http.Server | null = null;
+  private tokens = new Map<string, string>();
+  private routes: Array<{ method: string; pattern: RegExp; handler: RouteHandler; auth: boolean }> = [];
+  private faults: Array<{ method: string; path: string; status: number; message: string; headers: Record<string, string>; remaining: number }> = [];
+
+  constructor(dataset: Partial<MockMagentoDataset> = {}) {
+    this.data = { ...createDefaultDataset(), ...structuredClone(dataset) };
+    this.registerRoutes();
+  }
+
+  /**
+   * Listen on the given port (0 = any free port) and return the base URL
+   * to pass to auth.login.
+   */
+  async start(port = 0, host = '127.0.0.1'): Promise<string> {
+    const server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+    this.server = server;
+    const address = server.address() as { port: number };
+    return `http://${host}:${address.port}`;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Issue a bearer token directly, for tests that bypass auth.login.
+   */
+  issueToken(username = 'admin'): string {
+    const token = crypto.randomBytes(16).toString('hex');
+    this.tokens.set(token, username);
+    return token;
+  }
+
+  /**
+   * Answer the next `times` requests to `method path` with an error, e.g.
+   * failNext('GET', '/V1/products', 503, { headers: { 'Retry-After': '1' } }).
+   * The path excludes /rest, the store code and the query string.
+   */
+  failNext(
+    method: string,
+    path: string,
+    status: number,
+    options: { times?: number; headers?: Record<string, string>; message?: string } = {},
+  ): void {
+    this.faults.push({
+      method,
+      path,
+      status,
+      message: options.message ?? `Injected ${status}`,
+      headers: options.headers ?? {},
+      remaining: options.times ?? 1,
+    });
+  }
+
+  /** Every admin token currently valid */
+  issuedTokens(): string[] {
+    return [...this.tokens.keys()];
+  }
+
+  /**
+   * Invalidate every issued admin token, as if their lifetime had passed.
+   */
+  expireTokens(): void {
+    this.tokens.clear();
+  }
+
+  /**
+   * Apply every open async bulk operation, as Magento's consumer would.
+   */
+  runAsyncConsumer(): void {
+    for (const bulk of this.bulks.values()) {
+      for (const op of bulk.operations.filter((o) => o.status === 4)) {
+        try {
+          mergeProduct(this.findProduct(String(op.product['sku'])), op.product);
+          op.status = 1;
+        } catch (err) {
+          op.status = 3;
+          op.result_message = (err as Error).message;
+        }
+      }
+    }
+  }
+
+  // ── Routing ───────────────────────────────────────────────────────────────
+
+  private registerRoutes(): void {
+    const d = this.data;
+
+    // Auth
+    this.route('POST', '/V1/integration/admin/token', ({ body }) => {
+      const { username, password } = (body ?? {}) as { username?: string; password?: string };
+      const user = d.adminUsers.find((u) => u.username === username && u.password === password);
+      if (!user) {
+        throw new MockHttpError(401, 'The account sign-in was incorrect or your account is disabled temporarily. Please wait and try again later.');
+      }
+      return { body: this.issueToken(user.username) };
+    }, false);
+    this.route('GET', '/V1/users/me', ({ token }) => {
+      const username = token ? this.tokens.get(token) ?? 'integration' : 'integration';
+      const user = d.adminUsers.find((u) => u.username === username);
+      return { body: { username, email: user?.email ?? null } };
+    });
+
+    // Products
+    this.route('GET', '/V1/products', ({ query }) => ({ body: search(d.products, query) }));
+    this.route('GET', '/V1/products/:sku', ({ params }) => ({ body: this.findProduct(params[0]) }));
+    this.route('PUT', '/V1/products/:sku', ({ params, body }) => {
+      const product = this.findProduct(params[0]);
+      mergeProduct(product, ((body as Row)?.['product'] ?? {}) as Row);
+      return { body: product };
+    });
+    this.route('POST', '/V1/products', ({ body }) => {
+      const input = ((body as Row)?.['product'] ?? {}) as Row;
+      const existing = d.products.find((p) => p['sku'] === input['sku']);
+      if (existing) {
+        mergeProduct(existing, input);
+        return { body: existing };
+      }
+      const created: Row = { id: nextId(d.products, 'id'), type_id: 'simple', attribute_set_id: 4, ...input };
+      d.products.push(created);
+      return { body: created };
+    });
+
+    // Async bulk
+    this.route('POST', '/async/bulk/V1/products', ({ body }) => {
+      const items = Array.isArray(body) ? (body as Row[]) : [];
+      const bulkUuid = crypto.randomUUID();
+      this.bulks.set(bulkUuid, {
+        start_time: new Date().toISOString().replace('T', ' ').slice(0, 19),
+        operations: items.map((item, id) => ({ id, status: 4, product: (item['product'] ?? {}) as Row, result_message: null })),
+      });
+      if (this.asyncConsumerRunning) this.runAsyncConsumer();
+      return {
+        status: 202,
+        body: {
+          bulk_uuid: bulkUuid,
+          request_items: items.map((_, id) => ({ id, data_hash: null, status: 'accepted' })),
+          errors: false,
+        },
+      };
+    });
+    this.route('GET', '/V1/bulk/:uuid/status', ({ params }) => {
+      const bulk = this.bulks.get(params[0]);
+      if (!bulk) throw new MockHttpError(404, `Bulk operation with UUID "${params[0]}" does not exist.`);
+      return {
+        body: {
+          bulk_id: params[0],
+          description: 'Topic async.magento.catalog.api.productrepositoryinterface.save.put',
+          start_time: bulk.start_time,
+          operation_count: bulk.operations.length,
+          operations_list: bulk.operations.map((op) => ({ id: op.id, status: op.status, result_message: op.result_message })),
+        },
+      };
+    });
+
+    // Cart price rules and coupons
+    this.route('GET', '/V1/salesRules/search', ({ query }) => ({ body: search(d.salesRules, query) }));
+    this.route('GET', '/V1/salesRules/:id', ({ params }) => ({ body: findById(d.salesRules, 'rule_id', params[0], 'rule') }));
+    this.route('POST', '/V1/salesRules', ({ body }) => {
+      const rule: Row = { ...(((body as Row)?.['rule'] ?? {}) as Row), rule_id: nextId(d.salesRules, 'rule_id') };
+      d.salesRules.push(rule);
+      return { body: rule };
+    });
+    this.route('PUT', '/V1/salesRules/:id', ({ params, body }) => {
+      const rule = findById(d.salesRules, 'rule_id', params[0], 'rule');
+      Object.assign(rule, ((body as Row)?.['rule'] ?? {}) as Row, { rule_id: rule['rule_id'] });
+      return { body: rule };
+    });
+    this.route('POST', '/V1/salesRules/generate', ({ body }) => {
+      const spec = ((body as Row)?.['couponSpec'] ?? {}) as Row;
+      findById(d.salesRules, 'rule_id', String(spec['rule_id']), 'rule');
+      const codes: string[] = [];
+      for (let i = 0; i < Number(spec['quantity'] ?? 0); i++) {
+        const code = `${spec['prefix'] ?? ''}${randomCode(Number(spec['length'] ?? 12), String(spec['format'] ?? 'alphanum'))}`;
+        d.coupons.push({
+          coupon_id: nextId(d.coupons, 'coupon_id'),
+          rule_id: spec['rule_id'],
+          code,
+          usage_limit: 0,
+          usage_per_customer: 0,
+          times_used: 0,
+          is_primary: false,
+          created_at: new Date().toISOString().slice(0, 19).replace('T', ' '),
+          type: 1,
+        });
+        codes.push(code);
+      }
+      return { body: codes };
+    });
+    this.route('GET', '/V1/coupons/search', ({ query }) => ({ body: search(d.coupons, query) }));
+
+    // CMS
+    this.route('GET', '/V1/cmsPage/search', ({ query }) => ({ body: search(d.cmsPages, query) }));
+    this.route('GET', '/V1/cmsPage/:id', ({ params }) => ({ body: findById(d.cmsPages, 'id', params[0], 'CMS page') }));
+    this.route('PUT', '/V1/cmsPage/:id', ({ params, body }) => {
+      const page = findById(d.cmsPages, 'id', params[0], 'CMS page');
+      Object.assign(page, ((body as Row)?.['page'] ?? {}) as Row, { id: page['id'] });
+      return { body: page };
+    });
+    this.route('GET', '/V1/cmsBlock/search', ({ query }) => ({ body: search(d.cmsBlocks, query) }));
+    this.route('GET', '/V1/cmsBlock/:id', ({ params }) => ({ body: findById(d.cmsBlocks, 'id', params[0], 'CMS block') }));
+    this.route('PUT', '/V1/cmsBlock/:id', ({ params, body }) => {
+      const block = findById(d.cmsBlocks, 'id', params[0], 'CMS block');
+      Object.assign(block, ((body as Row)?.['block'] ?? {}) as Row, { id: block['id'] });
+      return { body: block };
+    });
+
+    // URL rewrites
+    this.route('GET', '/V1/url-rewrite', ({ query }) => ({ body: search(d.urlRewrites, query) }));
+
+    // Stores
+    this.route('GET', '/V1/store/websites', () => ({ body: d.websites }));
+    this.route('GET', '/V1/store/storeGroups', () => ({ body: d.storeGroups }));
+    this.route('GET', '/V1/store/storeViews', () => ({ body: d.storeViews }));
+    this.route('GET', '/V1/store/storeConfigs', () => ({ body: d.storeConfigs }));
+
+    // Inventory (MSI)
+    this.route('GET', '/V1/inventory/source-items', ({ query }) => ({ body: search(d.sourceItems, query) }));
+    this.route('GET', '/V1/inventory/get-product-salable-quantity/:sku/:stockId', ({ params }) => {
+      const sku = params[0];
+      this.findProduct(sku);
+      const qty = d.salableQty[sku] ?? d.sourceItems
+        .filter((item) => item['sku'] === sku && Number(item['status']) === 1)
+        .reduce((sum, item) => sum + Number(item['quantity'] ?? 0), 0);
+      return { body: qty };
+    });
+  }
+
+  private route(method: string, path: string, handler: RouteHandler, auth = true): void {
+    const pattern = new RegExp('^' + path.replace(/:[a-zA-Z]+/g, '([^/]+)') + '$');
+    this.routes.push({ method, pattern, handler, auth });
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let raw = '';
+    req.on('data', (chunk) => { raw += chunk; });
+    req.on('end', () => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const method = (req.method ?? 'GET').toUpperCase();
+      let body: unknown;
+      try {
+        body = raw ? JSON.parse(raw) : undefined;
+      } catch {
+        body = raw;
+      }
+
+      // /rest/V1/... or /rest/<store_code>/V1/..., optionally /async/bulk/V1/...
+      const restPath = /^\/rest(?:\/([^/]+))?((?:\/async\/bulk)?\/V1\/.*)$/.exec(url.pathname);
+      const storeCode = restPath?.[1] ?? null;
+      const path = restPath?.[2] ?? url.pathname;
+      this.requests.push({ method, path: path + url.search, store_code: storeCode, body });
+
+      const fault = this.faults.find((f) => f.method === method && f.path === path && f.remaining > 0);
+      if (fault) {
+        fault.remaining--;
+        for (const [name, value] of Object.entries(fault.headers)) res.setHeader(name, value);
+        sendJson(res, fault.status, { message: fault.message });
+        return;
+      }
+
+      try {
+        const route = restPath
+          ? this.routes.map((r) => ({ r, m: r.method === method ? r.pattern.exec(path) : null })).find((x) => x.m)
+          : undefined;
+        if (!route || !route.m) {
+          throw new MockHttpError(404, ROUTE_NOT_FOUND);
+        }
+
+        const token = this.authenticate(req.headers['authorization']);
+        if (route.r.auth && token === undefined) {
+          throw new MockHttpError(401, "The consumer isn't authorized to access %resources.", ['Magento_Backend::admin']);
+        }
+
+        const result = route.r.handler({
+          params: route.m.slice(1).map(decodeURIComponent),
+          storeCode,
+          query: url.searchParams,
+          body,
+          token: token ?? null,
+        });
+        sendJson(res, result.status ?? 200, result.body);
+      } catch (err) {
+        if (err instanceof MockHttpError) {
+          sendJson(res, err.status, { message: err.message, parameters: err.parameters });
+        } else {
+          sendJson(res, 500, { message: err instanceof Error ? err.message : String(err) });
+        }
+      }
+    });
+  }
+
+  /** Bearer tokens must have been issued; any OAuth 1.0 header is accepted. Undefined = not authenticated. */
+  private authenticate(header: string | undefined): string | null | undefined {
+    if (!header) return undefined;
+    if (header.startsWith('OAuth ')) return null;
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    if (match && this.tokens.has(match[1])) return match[1];
+    return undefined;
+  }
+
+  private findProduct(sku: string): Row {
+    const product = this.data.products.find((p) => p['sku'] === sku);
+    if (!product) {
+      throw new MockHttpError(404, "The product that was requested doesn't exist. Verify the product and try again.");
+    }
+    return product;
+  }
+}
+
+// ── Search Criteria ─────────────────────────────────────────────────────────
+
+/**
+ * Apply searchCriteria query parameters to a collection, Magento style.
+ */
+function search(rows: Row[], query: URLSearchParams): Row {
+  const groups = new Map<string, Map<string, Partial<Filter>>>();
+  const sorts = new Map<string, { field?: string; direction?: string }>();
+
+  for (const [key, value] of query) {
+    const filter = /^searchCriteria\[filterGroups\]\[(\d+)\]\[filters\]\[(\d+)\]\[(field|value|conditionType|condition_type)\]$/.exec(key);
+    if (filter) {
+      const group = groups.get(filter[1]) ?? new Map<string, Partial<Filter>>();
+      groups.set(filter[1], group);
+      const entry = group.get(filter[2]) ?? {};
+      group.set(filter[2], entry);
+      const prop = filter[3] === 'condition_type' ? 'conditionType' : filter[3];
+      (entry as Record<string, string>)[prop] = value;
+      continue;
+    }
+    const sort = /^searchCriteria\[sortOrders\]\[(\d+)\]\[(field|direction)\]$/.exec(key);
+    if (sort) {
+      const entry = sorts.get(sort[1]) ?? {};
+      sorts.set(sort[1], entry);
+      (entry as Record<string, string>)[sort[2]] = value;
+    }
+  }
+
+  const filterGroups = [...groups.values()].map((group) =>
+    [...group.values()]
+      .filter((f): f is Partial<Filter> & { field: string } => typeof f.field === 'string')
+      .map((f) => ({ field: f.field, value: f.value ?? '', conditionType: (f.conditionType ?? 'eq').toLowerCase() })),
+  );
+
+  let matched = rows.filter((row) => filterGroups.every((group) => group.length === 0 || group.some((f) => matchesFilter(row, f))));
+
+  for (const sort of [...sorts.values()].reverse()) {
+    if (!sort.field) continue;
+    const field = sort.field;
+    const direction = (sort.direction ?? 'ASC').toUpperCase() === 'DESC' ? -1 : 1;
+    matched = [...matched].sort((a, b) => compareValues(fieldValue(a, field), fieldValue(b, field)) * direction);
+  }
+
+  const totalCount = matched.length;
+  const pageSize = Number(query.get('searchCriteria[pageSize]') ?? 0);
+  let currentPage = Number(query.get('searchCriteria[currentPage]') ?? 1);
+  let items = matched;
+  if (pageSize > 0) {
+    // Like Magento, a page past the end returns the last page again
+    const lastPage = Math.max(1, Math.ceil(totalCount / pageSize));
+    currentPage = Math.min(Math.max(1, currentPage), lastPage);
+    items = matched.slice((currentPage - 1) * pageSize, currentPage * pageSize);
+  }
+
+  return {
+    items: structuredClone(items),
+    search_criteria: {
+      filter_groups: filterGroups.map((filters) => ({ filters: filters.map((f) => ({ field: f.field, value: f.value, condition_type: f.conditionType })) })),
+      page_size: pageSize || undefined,
+      current_page: currentPage,
+    },
+    total_count: totalCount,
+  };
+}
+
+function matchesFilter(row: Row, filter: Filter): boolean {
+  const actual = fieldValue(row, filter.field);
+  const values = Array.isArray(actual) ? actual : [actual];
+  const list = filter.value.split(',').map((v) => v.trim());
+
+  switch (filter.conditionType) {
+    case 'eq':
+      return values.some((v) => looseEquals(v, filter.value));
+    case 'neq':
+      return !values.some((v) => looseEquals(v, filter.value));
+    case 'like':
+      return values.some((v) => likeToRegExp(filter.value).test(String(v ?? '')));
+    case 'nlike':
+      return !values.some((v) => likeToRegExp(filter.value).test(String(v ?? '')));
+    case 'in':
+      return values.some((v) => list.some((item) => looseEquals(v, item)));
+    case 'nin':
+      return !values.some((v) => list.some((item) => looseEquals(v, item)));
+    case 'gt':
+      return values.some((v) => compareValues(v, filter.value) > 0);
+    case 'gteq':
+    case 'from':
+      return values.some((v) => compareValues(v, filter.value) >= 0);
+    case 'lt':
+      return values.some((v) => compareValues(v, filter.value) < 0);
+    case 'lteq':
+    case 'to':
+      return values.some((v) => compareValues(v, filter.value) <= 0);
+    case 'null':
+      return actual === undefined || actual === null;
+    case 'notnull':
+      return actual !== undefined && actual !== null;
+    case 'finset':
+      return values.some((v) => String(v ?? '').split(',').includes(filter.value));
+    default:
+      throw new MockHttpError(400, `Invalid condition type: ${filter.conditionType}`);
+  }
+}
+
+/**
+ * Read a field from a row, falling back to custom_attributes, to the
+ * category assignment for "category_id", and to "id" for the CMS search
+ * fields "page_id" and "block_id".
+ */
+function fieldValue(row: Row, field: string): unknown {
+  if (field in row) return row[field];
+  if ((field === 'page_id' || field === 'block_id') && 'id' in row) return row['id'];
+  const custom = row['custom_attributes'] as Array<{ attribute_code: string; value: unknown }> | undefined;
+  const attribute = custom?.find((a) => a.attribute_code === field);
+  if (attribute) return attribute.value;
+  if (field === 'category_id') {
+    const categories = custom?.find((a) => a.attribute_code === 'category_ids');
+    return categories?.value;
+  }
+  return undefined;
+}
+
+function looseEquals(actual: unknown, expected: string): boolean {
+  if (typeof actual === 'boolean') return (actual ? '1' : '0') === expected || String(actual) === expected;
+  return String(actual ?? '') === expected;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  const na = Number(a);
+  const nb = Number(b);
+  if (!Number.isNaN(na) && !Number.isNaN(nb) && a !== '' && b !== '') return na - nb;
+  return String(a ?? '').localeCompare(String(b ?? ''));
+}
+
+function likeToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Product PUT semantics: top-level fields replace, custom attributes merge by code */
+function mergeProduct(product: Row, update: Row): void {
+  const { custom_attributes: customUpdates, ...fields } = update;
+  Object.assign(product, fields, { sku: product['sku'], id: product['id'] });
+  if (Array.isArray(customUpdates)) {
+    const current = (product['custom_attributes'] as Array<{ attribute_code: string; value: unknown }> | undefined) ?? [];
+    for (const attr of customUpdates as Array<{ attribute_code: string; value: unknown }>) {
+      const existing = current.find((a) => a.attribute_code === attr.attribute_code);
+      if (existing) existing.value = attr.value;
+      else current.push({ ...attr });
+    }
+    product['custom_attributes'] = current;
+  }
+}
+
+function findById(rows: Row[], idField: string, id: string, label: string): Row {
+  const row = rows.find((r) => String(r[idField]) === id);
+  if (!row) {
+    throw new MockHttpError(404, `The ${label} with the "${id}" ID doesn't exist.`);
+  }
+  return row;
+}
+
+function nextId(rows: Row[], idField: string): number {
+  return rows.reduce((max, r) => Math.max(max, Number(r[idField]) || 0), 0) + 1;
+}
+
+function randomCode(length: number, format: string): string {
+  const alphabet = format === 'num' ? '0123456789' : format === 'alpha' ? 'ABCDEFGHJKLMNPQRSTUVWXYZ' : 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  let code = '';
+  for (let i = 0; i < length; i++) code += alphabet[crypto.randomInt(alphabet.length)];
+  return code;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// ── Default Dataset ─────────────────────────────────────────────────────────
+
+/**
+ * A small single-website store: two store views, a handful of products in
+ * two categories (one disabled, one out of stock), a coupon rule, CMS
+ * content and a two-hop redirect chain.
+ */
+export function createDefaultDataset(): MockMagentoDataset {
+  const product = (id: number, sku: string, name: string, price: number, extra: Row = {}, categories = ['3']): Row => ({
+    id,
+    sku,
+    name,
+    price,
+    status: 1,
+    visibility: 4,
+    type_id: 'simple',
+    attribute_set_id: 4,
+    extension_attributes: { website_ids: [1], stock_item: { qty: 10, is_in_stock: true } },
+    custom_attributes: [
+      { attribute_code: 'url_key', value: sku.toLowerCase() },
+      { attribute_code: 'category_ids', value: categories },
+      { attribute_code: 'meta_title', value: name },
+    ],
+    media_gallery_entries: [{ id, file: `/${sku.toLowerCase()}.jpg` }],
+    ...extra,
+  });
+
+  return {
+    adminUsers: [{ username: 'admin', password: 'admin123', email: 'admin@example.com' }],
+    products: [
+      product(1, 'TSHIRT-RED', 'Red T-Shirt', 19.99),
+      product(2, 'TSHIRT-BLUE', 'Blue T-Shirt', 19.99),
+      product(3, 'TSHIRT-GREEN', 'Green T-Shirt', 21.5, { status: 2 }),
+      product(4, 'MUG-WHITE', 'White Mug', 9.5, {}, ['4']),
+      product(5, 'MUG-BLACK', 'Black Mug', 9.5, {
+        extension_attributes: { website_ids: [1], stock_item: { qty: 0, is_in_stock: false } },
+      }, ['4']),
+    ],
+    salesRules: [{
+      rule_id: 1,
+      name: 'Spring 10% off',
+      is_active: true,
+      website_ids: [1],
+      customer_group_ids: [0, 1],
+      from_date: '2026-03-01',
+      to_date: '2026-05-31',
+      simple_action: 'by_percent',
+      discount_amount: 10,
+      coupon_type: 3,
+    }],
+    coupons: [],
+    cmsPages: [
+      { id: 1, identifier: 'home', title: 'Home Page', content: '<p>Welcome</p>', active: true },
+      { id: 2, identifier: 'about-us', title: 'About Us', content: '<p>About</p>', active: true },
+    ],
+    cmsBlocks: [
+      { id: 1, identifier: 'footer-links', title: 'Footer Links', content: '<ul></ul>', active: true },
+    ],
+    urlRewrites: [
+      { url_rewrite_id: 1, entity_type: 'custom', request_path: 'old-tees.html', target_path: 'tees.html', redirect_type: 301, store_id: 1 },
+      { url_rewrite_id: 2, entity_type: 'custom', request_path: 'tees.html', target_path: 't-shirts.html', redirect_type: 301, store_id: 1 },
+      { url_rewrite_id: 3, entity_type: 'product', request_path: 'tshirt-red.html', target_path: 'catalog/product/view/id/1', redirect_type: 0, store_id: 1 },
+    ],
+    websites: [
+      { id: 0, code: 'admin', name: 'Admin', default_group_id: 0 },
+      { id: 1, code: 'base', name: 'Main Website', default_group_id: 1 },
+    ],
+    storeGroups: [
+      { id: 1, website_id: 1, root_category_id: 2, default_store_id: 1, name: 'Main Website Store', code: 'main_website_store' },
+    ],
+    storeViews: [
+      { id: 1, code: 'default', name: 'Default Store View', website_id: 1, store_group_id: 1, is_active: 1 },
+      { id: 2, code: 'fr', name: 'French Store View', website_id: 1, store_group_id: 1, is_active: 1 },
+    ],
+    storeConfigs: [
+      { id: 1, code: 'default', website_id: 1, locale: 'en_US', base_currency_code: 'USD', default_display_currency_code: 'USD', timezone: 'America/Los_Angeles', base_url: 'http://localhost/' },
+      { id: 2, code: 'fr', website_id: 1, locale: 'fr_FR', base_currency_code: 'USD', default_display_currency_code: 'EUR', timezone: 'Europe/Paris', base_url: 'http://localhost/fr/' },
+    ],
+    sourceItems: [
+      { sku: 'TSHIRT-RED', source_code: 'default', quantity: 10, status: 1 },
+      { sku: 'TSHIRT-BLUE', source_code: 'default', quantity: 10, status: 1 },
+      { sku: 'TSHIRT-GREEN', source_code: 'default', quantity: 10, status: 1 },
+      { sku: 'MUG-WHITE', source_code: 'default', quantity: 10, status: 1 },
+      { sku: 'MUG-BLACK', source_code: 'default', quantity: 0, status: 0 },
+    ],
+    salableQty: {},
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Searches that span several pages, and the caps on how much one call may
+ * match or load.
+ */
+
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createDefaultDataset } from './mockMagentoServer';
+import { errorCode, startServer, TestServer } from './harness';
+
+const PRODUCT_COUNT = 23;
+const REDIRECT_COUNT = 30;
+
+function dataset() {
+  const defaults = createDefaultDataset();
+  const template = defaults.products[0];
+  const products = Array.from({ length: PRODUCT_COUNT }, (_, i) => ({
+    ...structuredClone(template),
+    id: 100 + i,
+    sku: `BULK-${String(i).padStart(3, '0')}`,
+  }));
+  // One long chain: r0.html → r1.html → ... → r30.html
+  const urlRewrites = Array.from({ length: REDIRECT_COUNT }, (_, i) => ({
+    url_rewrite_id: 100 + i,
+    entity_type: 'custom',
+    request_path: `r${i}.html`,
+    target_path: `r${i + 1}.html`,
+    redirect_type: 301,
+    store_id: 1,
+  }));
+  const cmsPages = Array.from({ length: 6 }, (_, i) => ({
+    id: 100 + i, identifier: `promo-${i}`, title: `Promo ${i}`, content: '<p>Promo</p>', active: true,
+  }));
+  return {
+    products: [...defaults.products, ...products],
+    urlRewrites: [...defaults.urlRewrites, ...urlRewrites],
+    cmsPages: [...defaults.cmsPages, ...cmsPages],
+  };
+}
+
+describe('pagination', () => {
+  let server: TestServer;
+
+  const requestsTo = (path: string) => server.mock.requests.filter((r) => r.method === 'GET' && r.path.split('?')[0] === path);
+
+  before(async () => {
+    server = await startServer({
+      MCP_SEARCH_PAGE_SIZE: '5',
+      MCP_MAX_REDIRECT_REWRITES: '12',
+      MCP_MAX_CMS_ITEMS_PER_BULK: '4',
+    }, dataset());
+    await server.login();
+  });
+  after(() => server.close());
+
+  it('walks every page of a match larger than one page', async () => {
+    const before = requestsTo('/V1/products').length;
+    const plan = await server.call('catalog.prepare_bulk_update', {
+      match: { sku_prefix: 'BULK' }, updates: { status: 2 }, scope: { store_view_code: 'default' },
+    });
+    assert.equal(errorCode(plan), undefined, JSON.stringify(plan));
+    assert.equal(plan['affected_count'], PRODUCT_COUNT);
+    assert.equal(requestsTo('/V1/products').length - before, Math.ceil(PRODUCT_COUNT / 5));
+  });
+
+  it('rejects a CMS match larger than the cap', async () => {
+    const plan = await server.call('cms.prepare_bulk_update_pages', {
+      match: { identifier: 'promo' }, updates: { title: 'Sale' }, scope: { store_view_code: 'default' },
+    });
+    assert.equal(errorCode(plan), 'BULK_CAP_EXCEEDED');
+  });
+
+  it('stops loading redirects at the cap and says the report is truncated', async () => {
+    const before = requestsTo('/V1/url-rewrite').length;
+    const report = await server.call('seo.report_redirect_chains', { max_depth: 10 });
+    assert.equal(errorCode(report), undefined, JSON.stringify(report));
+    assert.equal(report['truncated'], true);
+    assert.equal(report['redirects_scanned'], 12);
+    assert.equal(report['total_redirects'], REDIRECT_COUNT + 2);
+    assert.equal((report['warnings'] as string[]).length, 1);
+    assert.equal(requestsTo('/V1/url-rewrite').length - before, 3);
+  });
+
+  it('reports a failed redirect search as an error instead of an empty report', async () => {
+    server.mock.failNext('GET', '/V1/url-rewrite', 403, { message: 'Not allowed' });
+    const report = await server.call('seo.report_redirect_chains');
+    assert.equal(errorCode(report), 'MAGENTO_API_ERROR');
+    assert.equal(server.auditRecords().at(-1)?.status, 'error');
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * The plans tools (list, paginated get, cancel), and plan ownership: which
+ * logins can list, read, cancel and commit a plan.
+ */
+
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { errorCode, startServer, TestServer } from './harness';
+
+const ADMIN = { username: 'admin', password: 'admin123' };
+const EDITOR = { username: 'editor', password: 'editor123' };
+// A Magento admin user whose name matches the one token sessions get
+const INTEGRATION = { username: 'integration', password: 'integration123' };
+
+interface PlanDiff {
+  sku: string;
+  changes: Record<string, { from: unknown; to: unknown }>;
+}
+
+describe('plans tools', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer({ MCP_PLAN_EXPIRY_MIN: '10' });
+    await server.login();
+  });
+  after(() => server.close());
+
+  const prepare = async (skuPrefix: string) => {
+    const plan = await server.call('catalog.prepare_bulk_update', {
+      match: { sku_prefix: skuPrefix }, updates: { status: 2 }, scope: { store_view_code: 'default' },
+    });
+    assert.equal(errorCode(plan), undefined, JSON.stringify(plan));
+    return plan['plan_id'] as string;
+  };
+
+  it('lists pending plans oldest first with their time to expiry', async () => {
+    const first = await prepare('TSHIRT');
+    const second = await prepare('MUG');
+    const listed = await server.call('plans.list');
+    const plans = listed['plans'] as Array<{ plan_id: string; affected_count: number; expires_in_seconds: number }>;
+    assert.deepEqual(plans.map((p) => p.plan_id).slice(-2), [first, second]);
+    assert.deepEqual(plans.slice(-2).map((p) => p.affected_count), [3, 2]);
+    assert.ok(plans.every((p) => p.expires_in_seconds > 590 && p.expires_in_seconds <= 600));
+  });
+
+  it('pages through every diff of a plan', async () => {
+    const planId = await prepare('TSHIRT');
+    const page = (n: number) => server.call('plans.get', { plan_id: planId, page: n, page_size: 2 });
+
+    const first = await page(1);
+    assert.deepEqual(first['diff_page'], { page: 1, page_size: 2, total_diffs: 3, total_pages: 2, complete: true });
+    const second = await page(2);
+    const skus = [...(first['diffs'] as PlanDiff[]), ...(second['diffs'] as PlanDiff[])].map((d) => d.sku);
+    assert.deepEqual(skus.sort(), ['TSHIRT-BLUE', 'TSHIRT-GREEN', 'TSHIRT-RED']);
+
+    // A page past the end returns the last one
+    const beyond = await page(9);
+    assert.equal((beyond['diff_page'] as { page: number }).page, 2);
+    assert.deepEqual(beyond['diffs'], second['diffs']);
+  });
+
+  it('cancels a plan so it can no longer be committed', async () => {
+    const planId = await prepare('TSHIRT');
+    const cancelled = await server.call('plans.cancel', { plan_id: planId });
+    assert.equal(cancelled['plan_id'], planId);
+
+    const listed = (await server.call('plans.list'))['plans'] as Array<{ plan_id: string }>;
+    assert.ok(!listed.some((p) => p.plan_id === planId));
+    assert.equal(errorCode(await server.call('plans.cancel', { plan_id: planId })), 'PLAN_NOT_FOUND');
+    assert.equal(errorCode(await server.call('catalog.commit_bulk_update', { plan_id: planId, confirm: true, reason: 'Too late' })), 'PLAN_NOT_FOUND');
+    assert.ok(!server.mock.requests.some((r) => r.method === 'PUT'));
+  });
+});
+
+describe('plan ownership', () => {
+  let server: TestServer;
+
+  const prepare = async () => {
+    const plan = await server.call('catalog.prepare_bulk_update', {
+      match: { sku_prefix: 'TSHIRT' }, updates: { status: 2 }, scope: { store_view_code: 'default' },
+    });
+    assert.equal(errorCode(plan), undefined, JSON.stringify(plan));
+    return plan['plan_id'] as string;
+  };
+
+  const listed = async () =>
+    ((await server.call('plans.list'))['plans'] as Array<{ plan_id: string }>).map((p) => p.plan_id);
+
+  const assertHidden = async (planId: string) => {
+    assert.ok(!(await listed()).includes(planId));
+    assert.equal(errorCode(await server.call('plans.get', { plan_id: planId })), 'PLAN_NOT_FOUND');
+    assert.equal(errorCode(await server.call('plans.cancel', { plan_id: planId })), 'PLAN_NOT_FOUND');
+    assert.equal(errorCode(await server.call('catalog.commit_bulk_update', { plan_id: planId, confirm: true, reason: 'Not mine' })), 'PLAN_NOT_FOUND');
+  };
+
+  before(async () => {
+    server = await startServer({}, { adminUsers: [{ ...ADMIN }, { ...EDITOR }, { ...INTEGRATION }] });
+  });
+  after(() => server.close());
+
+  it('keeps a plan for the user who prepared it across logins', async () => {
+    await server.login(ADMIN);
+    const planId = await prepare();
+
+    await server.login(EDITOR);
+    await assertHidden(planId);
+
+    await server.login(ADMIN);
+    assert.ok((await listed()).includes(planId));
+    assert.equal((await server.call('plans.get', { plan_id: planId }))['username'], 'admin');
+  });
+
+  it('hides a user\'s plans from an integration token that claims their name', async () => {
+    await server.login(ADMIN);
+    const planId = await prepare();
+
+    await server.login({ integration_token: server.mock.issueToken(), username: 'admin' });
+    await assertHidden(planId);
+  });
+
+  it('ties an integration token\'s plans to its session, not to the shared name', async () => {
+    await server.login({ integration_token: server.mock.issueToken() });
+    const planId = await prepare();
+    assert.ok((await listed()).includes(planId));
+
+    await server.login(INTEGRATION);
+    await assertHidden(planId);
+
+    // Plans prepared after a verified login are not handed to token sessions either
+    const verifiedPlanId = await prepare();
+    await server.login({ integration_token: server.mock.issueToken() });
+    await assertHidden(verifiedPlanId);
+  });
+});
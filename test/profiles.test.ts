@@ -0,0 +1,126 @@
+/**
+ * Connection profiles: listing, switching, ${NAME} secrets, per-profile
+ * guardrails and plans that stay on the profile they were prepared on.
+ * Staging and production are two mock instances of their own; the
+ * harness's mock is not used.
+ */
+
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MockMagentoServer } from './mockMagentoServer';
+import { errorCode, startServer, TestServer } from './harness';
+
+const SCOPE = { store_view_code: 'default' };
+
+interface ListedProfile {
+  name: string;
+  environment: string;
+  auth_method: string;
+  active: boolean;
+  usable: boolean;
+  missing_env?: string[];
+}
+
+describe('connection profiles', () => {
+  const staging = new MockMagentoServer();
+  const production = new MockMagentoServer();
+  const productionToken = production.issueToken();
+  let profilesDir: string;
+  let server: TestServer;
+
+  const prepare = () => server.call('catalog.prepare_bulk_update', {
+    match: { sku_prefix: 'TSHIRT' }, updates: { status: 2 }, scope: SCOPE,
+  });
+  const use = (name: string) => server.call('profile.use', { name });
+  const writesTo = (mock: MockMagentoServer) => mock.requests.filter((r) => r.method === 'PUT').length;
+
+  before(async () => {
+    const stagingUrl = await staging.start();
+    const productionUrl = await production.start();
+    profilesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'magento-mcp-profiles-'));
+    const profilesPath = path.join(profilesDir, 'profiles.json');
+    const stagingProfile = { baseUrl: stagingUrl, environment: 'staging', auth: { username: 'admin', password: '${STAGING_PASSWORD}' } };
+    fs.writeFileSync(profilesPath, JSON.stringify({
+      profiles: {
+        staging: stagingProfile,
+        'staging-capped': { ...stagingProfile, guardrails: { maxSkusPerBulkCommit: 2 } },
+        production: { baseUrl: productionUrl, environment: 'production', auth: { integrationToken: '${PROD_TOKEN}' } },
+        uat: { baseUrl: 'http://uat.invalid', environment: 'uat', auth: { username: 'admin', password: '${UAT_PASSWORD}' } },
+      },
+    }));
+    server = await startServer({
+      MCP_PROFILES_PATH: profilesPath,
+      STAGING_PASSWORD: 'admin123',
+      PROD_TOKEN: productionToken,
+    });
+  });
+  after(async () => {
+    await server.close();
+    await staging.stop();
+    await production.stop();
+    fs.rmSync(profilesDir, { recursive: true, force: true });
+  });
+
+  it('lists every profile, marking those with unset secrets unusable', async () => {
+    const listed = await server.call('profile.list');
+    assert.equal(listed['active_profile'], null);
+    const profiles = listed['profiles'] as ListedProfile[];
+    assert.deepEqual(profiles.map((p) => p.name), ['staging', 'staging-capped', 'production', 'uat']);
+    assert.equal(profiles.find((p) => p.name === 'production')?.auth_method, 'integration_token');
+    const uat = profiles.find((p) => p.name === 'uat')!;
+    assert.equal(uat.usable, false);
+    assert.deepEqual(uat.missing_env, ['UAT_PASSWORD']);
+    assert.ok(profiles.filter((p) => p.name !== 'uat').every((p) => p.usable));
+  });
+
+  it('refuses unknown and unusable profiles', async () => {
+    assert.equal(errorCode(await use('qa')), 'NOT_FOUND');
+    assert.equal(errorCode(await use('uat')), 'VALIDATION_ERROR');
+  });
+
+  it('logs in with the profile\'s credentials and stamps the audit records', async () => {
+    const result = await use('production');
+    assert.equal(errorCode(result), undefined, JSON.stringify(result));
+    assert.equal(result['environment'], 'production');
+
+    const product = await server.call('catalog.get_product', { sku: 'TSHIRT-RED' });
+    assert.equal(product['sku'], 'TSHIRT-RED');
+    assert.ok(production.requests.some((r) => r.path.startsWith('/V1/products/TSHIRT-RED')));
+
+    const record = server.auditRecords().at(-1)!;
+    assert.equal(record.profile, 'production');
+    assert.equal(record.environment, 'production');
+    assert.equal(record.username, 'integration');
+    const listed = await server.call('profile.list');
+    assert.equal(listed['active_profile'], 'production');
+  });
+
+  it('applies the profile\'s guardrail overrides', async () => {
+    await use('staging');
+    assert.equal(errorCode(await prepare()), undefined);
+
+    await use('staging-capped');
+    assert.equal(errorCode(await prepare()), 'BULK_CAP_EXCEEDED');
+  });
+
+  it('only commits a plan on the profile it was prepared on', async () => {
+    await use('staging');
+    const plan = await prepare();
+    const commit = { plan_id: plan['plan_id'], confirm: true, reason: 'Profile check' };
+
+    // Same instance and user, different profile
+    await use('staging-capped');
+    assert.equal(errorCode(await server.call('catalog.commit_bulk_update', commit)), 'PLAN_NOT_FOUND');
+    await use('production');
+    assert.equal(errorCode(await server.call('catalog.commit_bulk_update', commit)), 'PLAN_NOT_FOUND');
+    assert.equal(writesTo(production), 0);
+
+    await use('staging');
+    const result = await server.call('catalog.commit_bulk_update', commit);
+    assert.equal(errorCode(result), undefined, JSON.stringify(result));
+    assert.equal(writesTo(staging), 3);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Plan resource notifications across the sessions of one user, over the
+ * HTTP transport.
+ */
+
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { errorCode, HttpTestServer, startServerOverHttp, TestSession } from './harness';
+
+const ADMIN = { username: 'admin', password: 'admin123' };
+const EDITOR = { username: 'editor', password: 'editor123' };
+const NOTIFICATION_WAIT_MS = 2000;
+
+describe('plan notifications', () => {
+  let server: HttpTestServer;
+
+  /** Collect the plan URIs a session is told were updated */
+  const watch = (session: TestSession) => {
+    const updated: string[] = [];
+    session.client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updated.push(notification.params.uri);
+    });
+    return updated;
+  };
+
+  before(async () => {
+    server = await startServerOverHttp({}, { adminUsers: [{ ...ADMIN }, { ...EDITOR }] });
+  });
+  after(() => server.close());
+
+  it('notifies every session of the plan\'s owner that subscribed, and no one else', async () => {
+    const preparer = await server.connect();
+    const otherTab = await server.connect();
+    const editor = await server.connect();
+    await preparer.login(ADMIN);
+    await otherTab.login(ADMIN);
+    await editor.login(EDITOR);
+
+    const plan = await preparer.call('catalog.prepare_bulk_update', {
+      match: { sku_prefix: 'TSHIRT' }, updates: { status: 2 }, scope: { store_view_code: 'default' },
+    });
+    const uri = `magento://plans/${plan['plan_id']}`;
+    const otherTabUpdates = watch(otherTab);
+    const editorUpdates = watch(editor);
+    await otherTab.client.subscribeResource({ uri });
+    await editor.client.subscribeResource({ uri });
+
+    // Committed from the second session: ownership follows the user, not the session
+    const commit = await otherTab.call('catalog.commit_bulk_update', { plan_id: plan['plan_id'], confirm: true, reason: 'Other tab' });
+    assert.equal(errorCode(commit), undefined, JSON.stringify(commit));
+
+    await waitFor(() => otherTabUpdates.includes(uri));
+    assert.deepEqual(editorUpdates, []);
+  });
+});
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  const deadline = Date.now() + NOTIFICATION_WAIT_MS;
+  while (!condition()) {
+    if (Date.now() >= deadline) assert.fail('notification not received');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
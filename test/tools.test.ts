@@ -0,0 +1,42 @@
+/**
+ * Tool schemas as clients see them, and argument validation in the pipeline.
+ */
+
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { errorCode, startServer, TestServer } from './harness';
+
+describe('tool schemas', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+    await server.login();
+  });
+  after(() => server.close());
+
+  it('publishes each action\'s schema with its properties and required arguments', async () => {
+    const { tools } = await server.client.listTools();
+    const prepare = tools.find((tool) => tool.name === 'catalog_prepare_bulk_update');
+    assert.ok(prepare);
+    assert.deepEqual(Object.keys(prepare.inputSchema.properties ?? {}).sort(), ['match', 'scope', 'updates']);
+    assert.deepEqual([...(prepare.inputSchema.required ?? [])].sort(), ['match', 'scope', 'updates']);
+
+    const commit = tools.find((tool) => tool.name === 'catalog_commit_bulk_update');
+    assert.ok(commit);
+    assert.ok(!(commit.inputSchema.required ?? []).includes('confirm'), 'confirm is enforced by the pipeline, not the schema');
+  });
+
+  it('returns invalid arguments as an audited VALIDATION_ERROR', async () => {
+    const result = await server.call('catalog.prepare_bulk_update', { match: 'everything', updates: { status: 2 } });
+    assert.equal(errorCode(result), 'VALIDATION_ERROR');
+    const record = server.auditRecords().at(-1)!;
+    assert.equal(record.action, 'catalog.prepare_bulk_update');
+    assert.equal(record.status, 'error');
+  });
+
+  it('accepts a call without arguments', async () => {
+    const result = await server.client.callTool({ name: 'plans_list' });
+    assert.ok(!result.isError, JSON.stringify(result));
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * End-to-end workflows through the MCP protocol: the server runs as a child
+ * process and talks to a MockMagentoServer.
+ */
+
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import { errorCode, startServer, TestServer } from './harness';
+
+const SCOPE = { store_view_code: 'default' };
+
+describe('bulk product update', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer({ MCP_ASYNC_BULK_START_TIMEOUT_SECONDS: '1' });
+    await server.login();
+  });
+  after(() => server.close());
+
+  const prepare = (updates: Record<string, unknown>, skuPrefix = 'TSHIRT') =>
+    server.call('catalog.prepare_bulk_update', { match: { sku_prefix: skuPrefix }, updates, scope: SCOPE });
+
+  const statusOf = (sku: string) => server.mock.data.products.find((p) => p['sku'] === sku)?.['status'];
+
+  const productWrites = () => server.mock.requests.filter((r) => r.method === 'PUT' && r.path.startsWith('/V1/products/'));
+
+  it('prepares a plan and applies it on commit', async () => {
+    const plan = await prepare({ status: 2 });
+    assert.equal(plan['affected_count'], 3);
+    assert.equal(statusOf('TSHIRT-RED'), 1, 'prepare must not write');
+
+    const result = await server.call('catalog.commit_bulk_update', { plan_id: plan['plan_id'], confirm: true, reason: 'Seasonal switch-off' });
+    assert.equal(errorCode(result), undefined, JSON.stringify(result));
+    assert.equal(statusOf('TSHIRT-RED'), 2);
+    assert.equal(statusOf('TSHIRT-BLUE'), 2);
+
+    const record = server.auditRecords().at(-1)!;
+    assert.equal(record.action, 'catalog.commit_bulk_update');
+    assert.equal(record.status, 'success');
+    assert.equal(record.reason, 'Seasonal switch-off');
+    assert.deepEqual([...(record.affected?.skus ?? [])].sort(), ['TSHIRT-BLUE', 'TSHIRT-GREEN', 'TSHIRT-RED']);
+    assert.deepEqual(record.bulk?.not_applied, []);
+  });
+
+  it('refuses a commit without confirmation', async () => {
+    const plan = await prepare({ status: 1 });
+    const result = await server.call('catalog.commit_bulk_update', { plan_id: plan['plan_id'] });
+    assert.equal(errorCode(result), 'CONFIRMATION_REQUIRED');
+    assert.equal(server.auditRecords().at(-1)?.status, 'error');
+  });
+
+  it('aborts on drift without writing, then applies only unchanged targets with on_drift: skip', async () => {
+    const plan = await prepare({ status: 1 });
+    server.mock.data.products.find((p) => p['sku'] === 'TSHIRT-BLUE')!['status'] = 1;
+    const writesBefore = productWrites().length;
+
+    const aborted = await server.call('catalog.commit_bulk_update', { plan_id: plan['plan_id'], confirm: true, reason: 'Re-enable' });
+    assert.equal(errorCode(aborted), 'PLAN_DRIFTED');
+    assert.equal(productWrites().length, writesBefore);
+
+    const skipped = await server.call('catalog.commit_bulk_update', {
+      plan_id: plan['plan_id'], confirm: true, reason: 'Re-enable', on_drift: 'skip',
+    });
+    assert.equal(errorCode(skipped), undefined, JSON.stringify(skipped));
+    const drift = skipped['drift'] as { drifted_count: number; skipped: Array<{ item: string }> };
+    assert.equal(drift.drifted_count, 1);
+    assert.equal(drift.skipped[0].item, 'TSHIRT-BLUE');
+    assert.deepEqual(productWrites().slice(writesBefore).map((r) => r.path).sort(), [
+      '/V1/products/TSHIRT-GREEN',
+      '/V1/products/TSHIRT-RED',
+    ]);
+  });
+
+  it('replays a repeated idempotency key instead of writing again', async () => {
+    const plan = await prepare({ status: 2 }, 'MUG');
+    const args = { plan_id: plan['plan_id'], confirm: true, reason: 'Retire mugs', idempotency_key: 'retire-mugs' };
+
+    const first = await server.call('catalog.commit_bulk_update', args);
+    assert.equal(errorCode(first), undefined, JSON.stringify(first));
+    const writes = productWrites().length;
+
+    const repeated = await server.call('catalog.commit_bulk_update', args);
+    assert.equal(repeated['message'], 'Operation already completed (idempotency match)');
+    assert.deepEqual(repeated['previous_result'], first);
+    assert.equal(productWrites().length, writes);
+
+    const conflicting = await server.call('catalog.commit_bulk_update', { ...args, async_bulk: true });
+    assert.equal(errorCode(conflicting), 'IDEMPOTENCY_CONFLICT');
+  });
+
+  it('submits an async bulk and warns about a stalled consumer', async () => {
+    const applied = await server.call('catalog.commit_bulk_update', {
+      plan_id: (await prepare({ status: 1 }))['plan_id'], confirm: true, reason: 'Async', async_bulk: true,
+    });
+    assert.equal(applied['mode'], 'async');
+    assert.equal(applied['accepted_count'], 3);
+    assert.equal(applied['consumer_started'], true);
+    assert.equal(statusOf('TSHIRT-RED'), 1);
+
+    server.mock.asyncConsumerRunning = false;
+    const args = {
+      plan_id: (await prepare({ status: 2 }))['plan_id'], confirm: true, reason: 'Async', async_bulk: true, idempotency_key: 'queued',
+    };
+    const stalled = await server.call('catalog.commit_bulk_update', args);
+    assert.equal(errorCode(stalled), undefined, JSON.stringify(stalled));
+    assert.equal(stalled['consumer_started'], false);
+    assert.ok(stalled['bulk_uuid']);
+    assert.equal((stalled['warnings'] as string[]).length, 1);
+    assert.ok((stalled['next_steps'] as string[]).length > 0);
+    assert.equal(server.auditRecords().at(-1)?.status, 'success');
+    assert.deepEqual((await server.call('catalog.commit_bulk_update', args))['previous_result'], stalled);
+    assert.equal(statusOf('TSHIRT-RED'), 1, 'queued updates are not applied without a consumer');
+
+    server.mock.runAsyncConsumer();
+    assert.equal(statusOf('TSHIRT-RED'), 2);
+  });
+});
+
+describe('audit trail', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+    await server.login();
+  });
+  after(() => server.close());
+
+  it('verifies an untouched trail and reports an edited record', async () => {
+    await server.call('catalog.get_product', { sku: 'TSHIRT-RED' });
+
+    const intact = await server.call('audit.verify');
+    assert.equal(intact['valid'], true, JSON.stringify(intact));
+    assert.equal(intact['first_seq'], 1);
+
+    const lines = fs.readFileSync(server.auditLogPath, 'utf-8').split('\n');
+    lines[0] = lines[0].replace('"username":"admin"', '"username":"someone-else"');
+    fs.writeFileSync(server.auditLogPath, lines.join('\n'));
+
+    const edited = await server.call('audit.verify');
+    assert.equal(edited['valid'], false);
+    const issues = edited['issues'] as Array<{ seq: number; problem: string }>;
+    assert.deepEqual(issues.map((issue) => [issue.seq, issue.problem]), [[1, 'modified']]);
+  });
+});